@@ -3,25 +3,74 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 
+import YAML from 'yaml';
+
 import {
+  applyLocalConfig,
   collectPortConflicts,
   confirmPrompt,
+  createSupervisor,
   defineConfig,
+  describeOptionCondition,
+  describePid,
   ensureInstall,
   enforceProdGuard,
+  forgetRuns,
   inputPrompt,
-  isPortOpen,
+  isModeOnlyCondition,
+  isOptionActive,
+  isPidAlive,
+  isPlainObject,
+  isPortInUse,
+  isRecordedProcess,
+  isValidPort,
+  lookupPortListeners,
+  maskEnvValue,
+  modeUsesLocalStack,
+  multiSelectPrompt,
+  optionPattern,
+  parseBooleanEnv,
   parseCommonCliArgs,
+  pathPrompt,
+  portPrompt,
+  readLastChoices,
+  readRunRegistry,
+  START_WIZARD_COMMANDS,
+  START_WIZARD_CONFLICT_POLICIES,
+  START_WIZARD_FLAGS,
+  recordRun,
+  resolveBindHost,
+  resolveEnv,
+  resolveOptionSpec,
   resolvePortConflictsInteractively,
+  resolvePreviousRunConflicts,
+  resolveReadinessChecks,
+  resolveStartOrder,
+  searchSelectPrompt,
+  secretPrompt,
   selectPrompt,
+  START_WIZARD_LOCAL_CONFIG_FILENAMES,
+  terminateProcess,
+  waitForPortRelease,
+  waitForReadiness,
+  writeLastChoices,
 } from '@timothymwt/start-wizard-core';
 import type {
+  PortHold,
   StartWizardConfig,
   StartWizardContext,
+  StartWizardModeSpec,
+  StartWizardOptionContext,
   StartWizardOptionSpec,
   StartWizardPortPlanEntry,
+  CommonCliArgs,
+  PortConflict,
+  PortConflictDecision,
+  PortConflictResolution,
+  StartWizardLastChoices,
+  StartWizardLocalConfig,
   StartWizardProduct,
-  StartWizardRunMode,
+  StartWizardResolvedOptionSpec,
 } from '@timothymwt/start-wizard-core';
 
 const DEFAULT_CONFIG_FILENAME = 'start-wizard.config.mjs';
@@ -34,18 +83,44 @@ function printHelp(): void {
   // Keep short; docs live in repo README.
   console.log(`
 Usage:
-  start-wizard
+  start-wizard                     Choose products and a mode, then start them
+  start-wizard status              Show which declared ports are listening, and by whom
+  start-wizard stop <id>[,<id>...] Stop products (--all: every product and the local stack)
+  start-wizard list [<id>...]      List products with their options and port plans
+  start-wizard --product <id> --help
+                                   Show one product's options and ports
+  start-wizard completion bash|zsh|fish
+                                   Print a shell completion script, e.g.
+                                   start-wizard completion bash >> ~/.bashrc
 
 Common flags:
-  --product <id>
-  --mode local|dev|prod
+  --product <id>[,<id>...]         Start one or more products (plus their dependsOn)
+  --profile <id>                   Start a named set of products from config.profiles
+  --mode <id>                      One of config.modes (default: local|dev|prod)
   --install | --no-install
   --kill                           Auto-kill conflicting listeners on required ports
   --yes                            Accept prompts automatically (required with --kill for non-interactive)
-  --allow-prod                     Required for non-interactive prod mode
+  --allow-prod                     Required for non-interactive guarded (prod) modes
+  --dry-run                        Print what would be killed, reassigned, installed and started; do nothing
+  --json                           With --dry-run, status, stop or list: print JSON on stdout
   --config <path>                  Path to start-wizard config (default: find ${DEFAULT_CONFIG_FILENAME} upwards)
+  --save-answers <file>            Record the chosen products, mode, options and conflict decisions (.json, .yaml)
+  --answers <file>                 Replay recorded answers; flags take precedence
+  --last                           Rerun with the last run's products, mode and options
   -h, --help
 
+Product options:
+  --<flag> <value>                 Applies to every selected product declaring it
+  --<product>.<flag> <value>       Applies to one product only
+  --<flag> a,b                     Multiselect options take a comma-separated list
+  <env>=<value>                    Options declaring env: 'VAR' also read that variable
+
+Environment (flags take precedence):
+  START_WIZARD_PRODUCT, START_WIZARD_PROFILE, START_WIZARD_MODE, START_WIZARD_CONFIG
+  START_WIZARD_YES, START_WIZARD_KILL, START_WIZARD_ALLOW_PROD, START_WIZARD_INSTALL (true|false)
+
+Precedence: flag > environment > --answers/--last > prompt > default
+
 Pass-through:
   start-wizard -- --any-args-after-double-dash
 `);
@@ -87,107 +162,269 @@ function resolveConfigPath({
   return { repoRoot: path.dirname(found), configPath: found };
 }
 
-async function loadConfig(configPath: string): Promise<StartWizardConfig> {
-  const url = pathToFileURL(configPath);
+async function importDefault(file: string): Promise<unknown> {
+  const url = pathToFileURL(file);
   // Bust module cache for repeated runs in the same node process (rare but safe).
   const mod = await import(`${url.href}?t=${Date.now()}`);
-  const raw = (mod as { default?: unknown }).default;
-  return defineConfig(raw as StartWizardConfig);
+  return (mod as { default?: unknown }).default;
+}
+
+type LoadedLocalConfig = { path: string; config: StartWizardLocalConfig };
+
+/**
+ * Load the config, merged with the first local override file next to it
+ * (`start-wizard.local.mjs` or `.json`), which is returned as `local`.
+ */
+async function loadConfig(
+  configPath: string
+): Promise<{ config: StartWizardConfig; local?: LoadedLocalConfig }> {
+  const config = defineConfig((await importDefault(configPath)) as StartWizardConfig);
+  const localPath = START_WIZARD_LOCAL_CONFIG_FILENAMES.map((name) =>
+    path.join(path.dirname(configPath), name)
+  ).find((file) => fs.existsSync(file));
+  if (!localPath) return { config };
+
+  try {
+    const local = (
+      localPath.endsWith('.json')
+        ? JSON.parse(fs.readFileSync(localPath, 'utf8'))
+        : await importDefault(localPath)
+    ) as StartWizardLocalConfig;
+    return {
+      config: applyLocalConfig(config, local),
+      local: { path: localPath, config: local },
+    };
+  } catch (err) {
+    throw new Error(
+      `Invalid ${path.basename(localPath)}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
 }
 
-function requireMode(value: unknown): StartWizardRunMode {
-  if (value === 'local' || value === 'dev' || value === 'prod') return value;
-  throw new Error(`Invalid mode "${String(value)}". Expected local|dev|prod.`);
+/** `--yes` and `--install`/`--no-install` from the local config unless given. */
+function withLocalDefaults(parsed: CommonCliArgs, local?: LoadedLocalConfig): CommonCliArgs {
+  return {
+    ...parsed,
+    yes: parsed.yes || local?.config.yes === true,
+    install: parsed.install ?? local?.config.install,
+  };
 }
 
-async function selectProduct(
+function requireMode(
   config: StartWizardConfig,
-  productArg?: string
-): Promise<StartWizardProduct> {
-  if (productArg) {
-    const product = config.products.find((p) => p.id === productArg);
-    if (!product) {
+  value: unknown
+): StartWizardModeSpec {
+  const modes = config.modes ?? [];
+  const spec = modes.find((m) => m.id === value);
+  if (spec) return spec;
+  throw new Error(
+    `Invalid mode "${String(value)}". Expected ${modes.map((m) => m.id).join('|')}.`
+  );
+}
+
+function requireProduct(
+  config: StartWizardConfig,
+  productId: string
+): StartWizardProduct {
+  const product = config.products.find((p) => p.id === productId);
+  if (!product) {
+    throw new Error(
+      `Unknown product "${productId}". Available: ${config.products
+        .map((p) => p.id)
+        .join(', ')}`
+    );
+  }
+  return product;
+}
+
+const PROFILE_CHOICE_PREFIX = 'profile:';
+const SEVERAL_PRODUCTS_CHOICE = ':several';
+const RERUN_LAST_CHOICE = ':last';
+
+/**
+ * Resolve the requested products (before `dependsOn` expansion) from
+ * `--product`, `--profile` or the product prompt. With `last`, the prompt
+ * first offers to rerun the last choices; `rerunLast` tells whether it was
+ * picked.
+ */
+async function selectProducts(
+  config: StartWizardConfig,
+  {
+    productArg,
+    profileArg,
+    last,
+  }: { productArg?: string; profileArg?: string; last?: WizardAnswers }
+): Promise<{ products: StartWizardProduct[]; rerunLast: boolean }> {
+  if (productArg && profileArg) {
+    throw new Error('Pass either --product or --profile, not both.');
+  }
+  const profiles = config.profiles ?? [];
+
+  if (profileArg) {
+    const profile = profiles.find((p) => p.id === profileArg);
+    if (!profile) {
       throw new Error(
-        `Unknown product "${productArg}". Available: ${config.products
-          .map((p) => p.id)
-          .join(', ')}`
+        `Unknown profile "${profileArg}". Available: ${
+          profiles.map((p) => p.id).join(', ') || '(none)'
+        }`
       );
     }
-    return product;
+    return {
+      products: profile.products.map((id) => requireProduct(config, id)),
+      rerunLast: false,
+    };
+  }
+
+  if (productArg) {
+    return {
+      products: productArg
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .map((id) => requireProduct(config, id)),
+      rerunLast: false,
+    };
   }
 
   if (!isTty()) {
     throw new Error(
-      `Missing --product in non-interactive mode. Available: ${config.products
+      `Missing --product${profiles.length ? ', --profile' : ''} or --last in non-interactive mode. Available: ${config.products
         .map((p) => p.id)
         .join(', ')}`
     );
   }
 
-  const choice = await selectPrompt({
+  const choice = await searchSelectPrompt({
     title: 'Which product do you want to start?',
-    options: config.products.map((p) => ({ id: p.id, label: p.label })),
-    defaultIndex: 0,
+    options: [
+      ...(last
+        ? [{ id: RERUN_LAST_CHOICE, label: `Rerun last: ${describeLastChoices(config, last)}` }]
+        : []),
+      ...config.products.map((p) => ({ id: p.id, label: p.label, description: p.description })),
+      ...profiles.map((p) => ({
+        id: `${PROFILE_CHOICE_PREFIX}${p.id}`,
+        label: `${p.label} (${p.products.join(', ')})`,
+      })),
+      ...(config.products.length > 1
+        ? [{ id: SEVERAL_PRODUCTS_CHOICE, label: 'Several products…' }]
+        : []),
+    ],
+    // "Rerun last" comes first when offered.
+    defaultIndex: last
+      ? 0
+      : Math.max(
+          0,
+          config.products.findIndex((p) => p.id === config.defaultProduct)
+        ),
   });
   if (!choice) throw new Error('Aborted.');
-  const product = config.products.find((p) => p.id === choice.id);
-  if (!product) throw new Error('Selected product not found.');
-  return product;
+
+  if (choice.id === RERUN_LAST_CHOICE && last) {
+    return {
+      products: last.products.map((id) => requireProduct(config, id)),
+      rerunLast: true,
+    };
+  }
+  if (choice.id.startsWith(PROFILE_CHOICE_PREFIX)) {
+    return selectProducts(config, {
+      profileArg: choice.id.slice(PROFILE_CHOICE_PREFIX.length),
+    });
+  }
+  if (choice.id === SEVERAL_PRODUCTS_CHOICE) {
+    const picked = await multiSelectPrompt({
+      title: 'Which products do you want to start?',
+      options: config.products.map((p) => ({ id: p.id, label: p.label })),
+    });
+    if (!picked) throw new Error('Aborted.');
+    return { products: picked.map((o) => requireProduct(config, o.id)), rerunLast: false };
+  }
+  return { products: [requireProduct(config, choice.id)], rerunLast: false };
 }
 
+/** The prompt default is `lastMode` when given, else the config's default mode. */
 async function selectMode(
   config: StartWizardConfig,
-  modeArg?: string
-): Promise<StartWizardRunMode> {
-  if (modeArg) return requireMode(modeArg);
+  modeArg?: string,
+  lastMode?: string
+): Promise<StartWizardModeSpec> {
+  if (modeArg) return requireMode(config, modeArg);
 
+  const modes = config.modes ?? [];
   if (!isTty()) {
-    throw new Error('Missing --mode in non-interactive mode (local|dev|prod).');
+    throw new Error(
+      `Missing --mode in non-interactive mode (${modes.map((m) => m.id).join('|')}).`
+    );
   }
+  // Nothing to ask with a single mode.
+  if (modes.length === 1) return modes[0]!;
 
-  const choice = await selectPrompt({
+  const choice = await searchSelectPrompt({
     title: 'Which backend mode?',
-    options: (config.modes ?? []).map((m) => ({ id: m.id, label: m.label })),
-    defaultIndex: 1, // dev
+    options: modes.map((m) => ({ id: m.id, label: m.label, description: m.description })),
+    defaultIndex: Math.max(
+      0,
+      modes.findIndex((m) => (lastMode ? m.id === lastMode : m.default))
+    ),
   });
   if (!choice) throw new Error('Aborted.');
-  return requireMode(choice.id);
+  return requireMode(config, choice.id);
 }
 
+/**
+ * Parse product option flags from `tokens`.
+ *
+ * Flags may be scoped to a product as `--<productId>.<flag>`; flags scoped to
+ * another product are left alone. Returns the parsed values plus the indices
+ * of the tokens that were consumed, so multi-product runs can report tokens
+ * no product understood. Flags of options whose `when` rules them out for
+ * `mode` are not consumed; `inapplicable` says why.
+ */
 function parseOptionTokens(
   specs: StartWizardOptionSpec[] | undefined,
-  tokens: string[]
-): Record<string, unknown> {
-  if (!specs?.length) {
-    if (tokens.length) throw new Error(`Unknown args: ${tokens.join(' ')}`);
-    return {};
-  }
+  tokens: string[],
+  productId: string,
+  { repoRoot, mode }: { repoRoot: string; mode: string }
+): {
+  values: Record<string, unknown>;
+  consumed: Set<number>;
+  inapplicable: Map<number, string>;
+} {
+  const values: Record<string, unknown> = {};
+  const consumed = new Set<number>();
+  const inapplicable = new Map<number, string>();
+  if (!specs?.length) return { values, consumed, inapplicable };
+
   const byFlag = new Map<string, StartWizardOptionSpec>();
   for (const spec of specs) {
     if (spec.flag) byFlag.set(spec.flag, spec);
   }
-
-  const values: Record<string, unknown> = {};
-  const unknown: string[] = [];
+  const specForFlag = (flagName: string) => {
+    const dot = flagName.indexOf('.');
+    if (dot < 0) return byFlag.get(flagName);
+    if (flagName.slice(0, dot) !== productId) return undefined;
+    return byFlag.get(flagName.slice(dot + 1));
+  };
+  // Conditions on other options are checked once those are filled in.
+  const ruledOut = (spec: StartWizardOptionSpec, i: number) => {
+    if (!isModeOnlyCondition(spec.when) || isOptionActive(spec, { repoRoot, mode, options: {} })) {
+      return false;
+    }
+    inapplicable.set(
+      i,
+      `${tokens[i]} only applies when ${describeOptionCondition(spec.when!)} (mode is ${mode}).`
+    );
+    return true;
+  };
 
   for (let i = 0; i < tokens.length; i += 1) {
     const token = tokens[i]!;
-    if (!token.startsWith('-')) {
-      unknown.push(token);
-      continue;
-    }
+    if (!token.startsWith('--')) continue;
     if (token.startsWith('--no-')) {
       const flagName = token.slice('--no-'.length);
-      const spec = byFlag.get(flagName);
-      if (!spec || spec.kind !== 'boolean') {
-        unknown.push(token);
-        continue;
-      }
+      const spec = specForFlag(flagName);
+      if (!spec || spec.kind !== 'boolean' || ruledOut(spec, i)) continue;
       values[spec.name] = false;
-      continue;
-    }
-    if (!token.startsWith('--')) {
-      unknown.push(token);
+      consumed.add(i);
       continue;
     }
 
@@ -196,11 +433,9 @@ function parseOptionTokens(
       eqIdx >= 0 ? token.slice(2, eqIdx) : token.slice(2)
     ).trim();
     const inlineValue = eqIdx >= 0 ? token.slice(eqIdx + 1) : null;
-    const spec = byFlag.get(flagName);
-    if (!spec) {
-      unknown.push(token);
-      continue;
-    }
+    const spec = specForFlag(flagName);
+    if (!spec || ruledOut(spec, i)) continue;
+    consumed.add(i);
 
     if (spec.kind === 'boolean') {
       if (inlineValue === null) {
@@ -220,195 +455,513 @@ function parseOptionTokens(
     const rawValue =
       inlineValue !== null ? inlineValue : (tokens[i + 1] ?? null);
     if (rawValue === null) throw new Error(`Missing value for --${flagName}`);
-    if (inlineValue === null) i += 1;
+    if (inlineValue === null) {
+      i += 1;
+      consumed.add(i);
+    }
 
     if (spec.kind === 'string') {
       values[spec.name] = String(rawValue);
       continue;
     }
     if (spec.kind === 'number') {
-      const n = Number.parseInt(String(rawValue), 10);
-      if (!Number.isFinite(n))
+      const n = parseNumber(rawValue);
+      if (n === undefined)
         throw new Error(`Invalid number for --${flagName}: "${rawValue}"`);
       values[spec.name] = n;
       continue;
     }
-    if (spec.kind === 'select') {
+    if (spec.kind === 'port') {
+      const n = parseNumber(rawValue);
+      if (!isValidPort(n))
+        throw new Error(`Invalid port for --${flagName}: "${rawValue}"`);
+      values[spec.name] = n;
+      continue;
+    }
+    if (spec.kind === 'multiselect') {
+      // Comma-separated; repeating the flag adds to the list.
+      const previous = (values[spec.name] as string[] | undefined) ?? [];
+      values[spec.name] = [...previous, ...splitList(rawValue)];
+      continue;
+    }
+    if (spec.kind === 'select' || spec.kind === 'path' || spec.kind === 'secret') {
       values[spec.name] = String(rawValue);
       continue;
     }
-    unknown.push(token);
   }
 
+  return { values, consumed, inapplicable };
+}
+
+/** `raw` as a decimal number, or undefined; unlike `parseInt`, `30x1` is not 30. */
+function parseNumber(raw: string): number | undefined {
+  return /^\s*-?\d+(\.\d+)?\s*$/.test(raw) ? Number(raw) : undefined;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse option flags for every product being started. Unscoped flags apply to
+ * each product that declares them; tokens no product consumes are rejected.
+ */
+function parseProductOptionTokens(
+  products: StartWizardProduct[],
+  tokens: string[],
+  { repoRoot, mode }: { repoRoot: string; mode: string }
+): Map<string, Record<string, unknown>> {
+  const byProduct = new Map<string, Record<string, unknown>>();
+  const consumed = new Set<number>();
+  const inapplicable = new Map<number, string>();
+  for (const product of products) {
+    const parsed = parseOptionTokens(product.options, tokens, product.id, { repoRoot, mode });
+    byProduct.set(product.id, parsed.values);
+    for (const idx of parsed.consumed) consumed.add(idx);
+    for (const [idx, reason] of parsed.inapplicable) inapplicable.set(idx, reason);
+  }
+  const unknown = tokens.flatMap((_t, i) => (consumed.has(i) ? [] : [i]));
   if (unknown.length) {
-    throw new Error(`Unknown args: ${unknown.join(' ')}`);
+    throw new Error(
+      inapplicable.get(unknown[0]!) ??
+        `Unknown args: ${unknown.map((i) => tokens[i]).join(' ')}`
+    );
   }
+  return byProduct;
+}
 
+/**
+ * Option values from the environment variables named by each spec's `env`.
+ * Empty variables are ignored.
+ */
+function parseOptionEnv(
+  specs: StartWizardOptionSpec[] | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const spec of specs ?? []) {
+    const raw = spec.env ? env[spec.env] : undefined;
+    if (!spec.env || raw === undefined || raw === '') continue;
+    if (spec.kind === 'boolean') {
+      values[spec.name] = parseBooleanEnv(spec.env, raw);
+    } else if (spec.kind === 'number') {
+      const n = parseNumber(raw);
+      if (n === undefined) throw new Error(`Invalid number in ${spec.env}: "${raw}"`);
+      values[spec.name] = n;
+    } else if (spec.kind === 'port') {
+      const n = parseNumber(raw);
+      if (!isValidPort(n)) throw new Error(`Invalid port in ${spec.env}: "${raw}"`);
+      values[spec.name] = n;
+    } else if (spec.kind === 'multiselect') {
+      values[spec.name] = splitList(raw);
+    } else {
+      values[spec.name] = raw;
+    }
+  }
   return values;
 }
 
 async function fillOptionDefaultsAndPrompts(
   specs: StartWizardOptionSpec[] | undefined,
   values: Record<string, unknown>,
-  productId: string
+  productId: string,
+  /**
+   * `mode` and the options filled so far decide `when` conditions and
+   * computed defaults; options ruled out are dropped, unless `fromFlags` set
+   * them, which is an error.
+   * With `interactive: false`, defaults are used instead of prompting.
+   * `remembered` values (from the last run) become the prompt defaults.
+   * `fromFlags`/`fromEnv` name the flag or variable in errors.
+   */
+  {
+    repoRoot,
+    mode,
+    fromFlags = {},
+    fromEnv = {},
+    interactive = isTty(),
+    remembered = {},
+  }: {
+    /** Base for `path` options. */
+    repoRoot: string;
+    mode: string;
+    fromFlags?: Record<string, unknown>;
+    fromEnv?: Record<string, unknown>;
+    interactive?: boolean;
+    remembered?: Record<string, unknown>;
+  }
 ): Promise<Record<string, unknown>> {
   if (!specs?.length) return values;
 
-  for (const spec of specs) {
-    if (values[spec.name] !== undefined) continue;
+  for (const [index, optionSpec] of specs.entries()) {
+    // Earlier options are final by now; inactive ones were dropped.
+    const earlier = Object.fromEntries(
+      specs
+        .slice(0, index)
+        .flatMap((o) => (values[o.name] === undefined ? [] : [[o.name, values[o.name]]]))
+    );
+    const optionCtx = { repoRoot, mode, options: earlier };
+    if (!isOptionActive(optionSpec, optionCtx)) {
+      if (optionSpec.name in fromFlags) {
+        throw new Error(
+          `--${optionSpec.flag} only applies when ${describeOptionCondition(optionSpec.when!)}.`
+        );
+      }
+      delete values[optionSpec.name];
+      continue;
+    }
+    const spec = await resolveOptionSpec(optionSpec, optionCtx);
+    const check = (value: unknown) => {
+      const coerced = transformOptionValue(spec, value, optionCtx);
+      return { value: coerced, error: optionValueError(spec, coerced, optionCtx) };
+    };
 
-    if (spec.kind === 'boolean') {
-      const v = spec.prompt
+    if (values[spec.name] === undefined) {
+      const value = await promptOptionValue(spec, {
+        productId,
+        repoRoot,
+        interactive,
+        last: remembered[spec.name],
+        validate: (entered) => check(entered).error,
+      });
+      if (value === undefined) {
+        delete values[spec.name];
+        continue;
+      }
+      values[spec.name] = value;
+    }
+
+    const { value, error } = check(values[spec.name]);
+    if (error) {
+      const source =
+        spec.name in fromFlags
+          ? `--${spec.flag}`
+          : spec.name in fromEnv
+            ? spec.env
+            : `${productId}.${spec.name}`;
+      // Lists read back the way the flag takes them.
+      const shown =
+        spec.kind === 'secret'
+          ? '****'
+          : JSON.stringify(Array.isArray(value) ? value.join(',') : value);
+      throw new Error(`Invalid value for ${source}: ${shown}. ${error}`);
+    }
+    values[spec.name] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Ask for one option (or take its default without a TTY or prompt). Returns
+ * undefined to leave the option unset.
+ */
+async function promptOptionValue(
+  spec: StartWizardResolvedOptionSpec,
+  {
+    productId,
+    repoRoot,
+    interactive,
+    last,
+    validate,
+  }: {
+    productId: string;
+    repoRoot: string;
+    interactive: boolean;
+    /** The last run's value, used as the prompt default. */
+    last: unknown;
+    /** The option's checks, for prompts that can ask again. */
+    validate: (value: unknown) => string | null;
+  }
+): Promise<unknown> {
+  const missing = () =>
+    new Error(
+      `Missing required option: ${productId}.${spec.name}${
+        spec.kind === 'secret' && spec.env ? ` (set ${spec.env})` : ''
+      }`
+    );
+
+  switch (spec.kind) {
+    case 'boolean':
+      return spec.prompt && interactive
         ? await confirmPrompt({
             question: spec.prompt.question,
             defaultValue:
-              spec.prompt.defaultValue ?? spec.defaultValue ?? false,
+              typeof last === 'boolean'
+                ? last
+                : (spec.prompt.defaultValue ?? spec.defaultValue ?? false),
           })
-        : (spec.defaultValue ?? false);
-      values[spec.name] = v;
-      continue;
-    }
+        : (spec.prompt?.defaultValue ?? spec.defaultValue ?? false);
 
-    if (spec.kind === 'select') {
-      const allowed = new Set(spec.options.map((o) => o.id));
+    case 'select': {
       const defaultId =
-        spec.defaultId ??
-        spec.options[spec.prompt?.defaultIndex ?? 0]?.id ??
-        spec.options[0]?.id;
-      if (!defaultId)
-        throw new Error(`Invalid select spec for ${productId}.${spec.name}`);
-
-      if (!isTty() && !spec.prompt) {
-        values[spec.name] = defaultId;
-        continue;
-      }
-      if (!isTty() && spec.prompt) {
-        values[spec.name] = defaultId;
-        continue;
-      }
+        spec.defaultId ?? spec.options[spec.prompt?.defaultIndex ?? 0]?.id ?? spec.options[0]?.id;
+      if (!defaultId) throw new Error(`No choices for ${productId}.${spec.name}.`);
+      // Computed choices may leave nothing to choose between.
+      if (!interactive || spec.options.length < 2) return defaultId;
 
+      const lastIndex = spec.options.findIndex((o) => o.id === last);
       const choice = await selectPrompt({
         title: spec.prompt?.title ?? `${spec.name}?`,
         options: spec.options.map((o) => ({ id: o.id, label: o.label })),
         defaultIndex:
-          spec.prompt?.defaultIndex ??
-          Math.max(
-            0,
-            spec.options.findIndex((o) => o.id === defaultId)
-          ),
+          lastIndex >= 0
+            ? lastIndex
+            : (spec.prompt?.defaultIndex ??
+              Math.max(
+                0,
+                spec.options.findIndex((o) => o.id === defaultId)
+              )),
       });
       if (!choice) throw new Error('Aborted.');
-      values[spec.name] = choice.id;
-      if (!allowed.has(choice.id)) {
-        throw new Error(
-          `Invalid value for ${productId}.${spec.name}: "${choice.id}"`
-        );
-      }
-      continue;
+      return choice.id;
     }
 
-    if (spec.kind === 'string') {
+    case 'string': {
       const defaultValue = spec.prompt?.defaultValue ?? spec.defaultValue ?? '';
-      if (!isTty()) {
-        if (spec.required && defaultValue.trim() === '') {
-          throw new Error(`Missing required option: ${productId}.${spec.name}`);
-        }
-        values[spec.name] = defaultValue;
-        continue;
+      if (!interactive || !spec.prompt) {
+        if (spec.required && defaultValue.trim() === '') throw missing();
+        return defaultValue;
       }
-      if (spec.prompt) {
-        const v = await inputPrompt({
-          question: spec.prompt.question,
-          defaultValue,
-          validate: (value) => {
-            if (spec.required && value.trim() === '')
-              return 'Value is required.';
-            return null;
-          },
-        });
-        values[spec.name] = v;
-        continue;
-      }
-      if (spec.required)
-        throw new Error(`Missing required option: ${productId}.${spec.name}`);
-      values[spec.name] = defaultValue;
-      continue;
+      return await inputPrompt({
+        question: spec.prompt.question,
+        defaultValue: typeof last === 'string' ? last : defaultValue,
+        validate: (value) => {
+          if (spec.required && value.trim() === '') return 'Value is required.';
+          return validate(value);
+        },
+      });
     }
 
-    if (spec.kind === 'number') {
+    case 'number': {
       const defaultValue =
         spec.prompt?.defaultValue ??
         (spec.defaultValue !== undefined ? String(spec.defaultValue) : '');
-      if (!isTty()) {
-        if (spec.required && defaultValue.trim() === '') {
-          throw new Error(`Missing required option: ${productId}.${spec.name}`);
-        }
-        const n =
-          defaultValue.trim() === ''
-            ? undefined
-            : Number.parseInt(defaultValue, 10);
-        if (n !== undefined && (!Number.isFinite(n) || n <= 0)) {
-          throw new Error(
-            `Invalid number default for ${productId}.${spec.name}`
-          );
+      if (!interactive || !spec.prompt) {
+        if (spec.required && defaultValue.trim() === '') throw missing();
+        if (defaultValue.trim() === '') return spec.defaultValue;
+        const n = parseNumber(defaultValue);
+        if (n === undefined || n <= 0) {
+          throw new Error(`Invalid number default for ${productId}.${spec.name}`);
         }
-        values[spec.name] = n ?? spec.defaultValue;
-        continue;
+        return n;
       }
-      if (spec.prompt) {
-        const entered = await inputPrompt({
-          question: spec.prompt.question,
-          defaultValue,
-          validate: (value) => {
-            if (spec.required && value.trim() === '')
-              return 'Value is required.';
-            const n = Number.parseInt(value, 10);
-            if (!Number.isFinite(n) || n <= 0)
-              return 'Must be a positive number.';
-            if (spec.min !== undefined && n < spec.min)
-              return `Must be >= ${spec.min}.`;
-            if (spec.max !== undefined && n > spec.max)
-              return `Must be <= ${spec.max}.`;
-            return null;
-          },
-        });
-        values[spec.name] = Number.parseInt(entered, 10);
-        continue;
+      const entered = await inputPrompt({
+        question: spec.prompt.question,
+        defaultValue: typeof last === 'number' ? String(last) : defaultValue,
+        validate: (value) => {
+          if (spec.required && value.trim() === '') return 'Value is required.';
+          const n = parseNumber(value);
+          if (n === undefined || n <= 0) return 'Must be a positive number.';
+          return validate(n);
+        },
+      });
+      return parseNumber(entered);
+    }
+
+    case 'multiselect': {
+      const defaultIds = spec.defaultIds ?? [];
+      if (!interactive || !spec.prompt) {
+        if (spec.required && !defaultIds.length) throw missing();
+        return defaultIds;
       }
-      if (spec.required)
-        throw new Error(`Missing required option: ${productId}.${spec.name}`);
-      if (spec.defaultValue !== undefined)
-        values[spec.name] = spec.defaultValue;
-      continue;
+      const choices = await multiSelectPrompt({
+        title: spec.prompt.title,
+        options: spec.options.map((o) => ({ id: o.id, label: o.label })),
+        defaultIds: Array.isArray(last) ? last.map(String) : defaultIds,
+      });
+      if (!choices) throw new Error('Aborted.');
+      return choices.map((o) => o.id);
     }
-  }
 
-  // Validate select option values and number bounds after filling.
-  for (const spec of specs) {
-    const v = values[spec.name];
-    if (v === undefined) continue;
-    if (spec.kind === 'select') {
-      const allowed = new Set(spec.options.map((o) => o.id));
-      if (!allowed.has(String(v))) {
-        throw new Error(
-          `Invalid value for ${productId}.${spec.name}: "${String(v)}". Allowed: ${[
-            ...allowed,
-          ].join(', ')}`
-        );
+    case 'path': {
+      const defaultValue = spec.prompt?.defaultValue ?? spec.defaultValue ?? '';
+      if (!interactive || !spec.prompt) {
+        if (spec.required && defaultValue.trim() === '') throw missing();
+        return defaultValue === '' ? undefined : defaultValue;
       }
+      const entered = await pathPrompt({
+        question: spec.prompt.question,
+        baseDir: repoRoot,
+        defaultValue: typeof last === 'string' ? last : defaultValue,
+        validate: (value) =>
+          value === '' ? (spec.required ? 'Value is required.' : null) : validate(value),
+      });
+      return entered === '' ? undefined : entered;
     }
-    if (spec.kind === 'number') {
-      const n = Number(v);
-      if (!Number.isFinite(n))
-        throw new Error(`Invalid number for ${productId}.${spec.name}`);
-      if (spec.min !== undefined && n < spec.min)
-        throw new Error(`${productId}.${spec.name} must be >= ${spec.min}`);
-      if (spec.max !== undefined && n > spec.max)
-        throw new Error(`${productId}.${spec.name} must be <= ${spec.max}`);
+
+    case 'secret': {
+      if (!interactive || !spec.prompt) {
+        if (spec.required) throw missing();
+        return undefined;
+      }
+      const entered = await secretPrompt({
+        question: spec.prompt.question,
+        validate: (value) =>
+          value === '' ? (spec.required ? 'Value is required.' : null) : validate(value),
+      });
+      if (entered === null) throw new Error('Aborted.');
+      return entered === '' ? undefined : entered;
+    }
+
+    case 'port': {
+      const defaultValue =
+        spec.prompt?.defaultValue !== undefined
+          ? parseNumber(spec.prompt.defaultValue)
+          : spec.defaultValue;
+      if (!interactive || !spec.prompt) {
+        if (spec.required && defaultValue === undefined) throw missing();
+        return defaultValue;
+      }
+      return await portPrompt({
+        question: spec.prompt.question,
+        defaultValue: typeof last === 'number' ? last : defaultValue,
+        validate,
+      });
     }
   }
+}
 
-  return values;
+/** `value` after the option's `transform`, if any and the value has the right type. */
+function transformOptionValue(
+  spec: StartWizardResolvedOptionSpec,
+  value: unknown,
+  ctx: StartWizardOptionContext
+): unknown {
+  if (!spec.transform || builtInOptionError(spec, value, ctx.repoRoot, { typeOnly: true })) {
+    return value;
+  }
+  return (spec.transform as (v: unknown, c: StartWizardOptionContext) => unknown)(value, ctx);
+}
+
+/**
+ * Why `value` does not fit `spec`: the built-in checks for its kind, then
+ * `pattern`, then `validate`. Null when it fits.
+ */
+function optionValueError(
+  spec: StartWizardResolvedOptionSpec,
+  value: unknown,
+  ctx: StartWizardOptionContext
+): string | null {
+  const builtIn = builtInOptionError(spec, value, ctx.repoRoot);
+  if (builtIn) return builtIn;
+  if ('pattern' in spec && spec.pattern !== undefined) {
+    const pattern = optionPattern(spec.pattern);
+    if (!pattern.test(String(value))) return `Must match ${String(pattern)}.`;
+  }
+  const validate = spec.validate as
+    | ((v: unknown, c: StartWizardOptionContext) => string | null | undefined)
+    | undefined;
+  return validate?.(value, ctx) || null;
+}
+
+/** With `typeOnly`, only whether `value` has the kind's type. */
+function builtInOptionError(
+  spec: StartWizardResolvedOptionSpec,
+  value: unknown,
+  repoRoot: string,
+  { typeOnly = false }: { typeOnly?: boolean } = {}
+): string | null {
+  switch (spec.kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Expected true or false.';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Expected a number.';
+      if (typeOnly) return null;
+      if (spec.min !== undefined && value < spec.min) return `Must be >= ${spec.min}.`;
+      if (spec.max !== undefined && value > spec.max) return `Must be <= ${spec.max}.`;
+      return null;
+    case 'port':
+      return isValidPort(value) ? null : 'Must be a port (1-65535).';
+    case 'string':
+    case 'secret':
+      return typeof value === 'string' ? null : 'Expected a string.';
+    case 'path':
+      if (typeof value !== 'string') return 'Expected a string.';
+      return typeOnly ? null : pathOptionError(spec, value, repoRoot);
+    case 'select':
+      if (typeof value !== 'string') return 'Expected a string.';
+      return typeOnly || spec.options.some((o) => o.id === value)
+        ? null
+        : `Allowed: ${spec.options.map((o) => o.id).join(', ')}`;
+    case 'multiselect': {
+      if (!Array.isArray(value) || !value.every((id) => typeof id === 'string')) {
+        return 'Expected a list of ids.';
+      }
+      if (typeOnly) return null;
+      const invalid = value.find((id) => !spec.options.some((o) => o.id === id));
+      if (invalid !== undefined) {
+        return `"${invalid}" is not allowed. Allowed: ${spec.options.map((o) => o.id).join(', ')}`;
+      }
+      return spec.required && !value.length ? 'Pick at least one.' : null;
+    }
+  }
+}
+
+/** Why `value` does not fit a `path` option, or null. */
+function pathOptionError(
+  spec: Pick<Extract<StartWizardOptionSpec, { kind: 'path' }>, 'mustExist' | 'type'>,
+  value: string,
+  repoRoot: string
+): string | null {
+  if (spec.mustExist === false) return null;
+  const stat = fs.statSync(path.resolve(repoRoot, value), { throwIfNoEntry: false });
+  if (!stat) return 'Does not exist.';
+  if (spec.type === 'file' && !stat.isFile()) return 'Not a file.';
+  if (spec.type === 'directory' && !stat.isDirectory()) return 'Not a directory.';
+  return null;
+}
+
+/** `options` without secret values, for answers files and the last choices. */
+function withoutSecrets(
+  specs: StartWizardOptionSpec[] | undefined,
+  options: Record<string, unknown>
+): Record<string, unknown> {
+  const secrets = new Set(specs?.filter((o) => o.kind === 'secret').map((o) => o.name));
+  return Object.fromEntries(Object.entries(options).filter(([name]) => !secrets.has(name)));
+}
+
+/** `options` with secret values masked, for summaries and dry-run plans. */
+function maskSecrets(
+  specs: StartWizardOptionSpec[] | undefined,
+  options: Record<string, unknown>
+): Record<string, unknown> {
+  const masked = { ...options };
+  for (const spec of specs ?? []) {
+    if (spec.kind === 'secret' && masked[spec.name] !== undefined) masked[spec.name] = '****';
+  }
+  return masked;
+}
+
+/**
+ * The product's port plan plus an entry for each `port` option, linked back
+ * through `optionName`. A plan entry on the same port gets the link instead.
+ */
+function portPlanFor(
+  product: StartWizardProduct,
+  ctx: StartWizardContext
+): StartWizardPortPlanEntry[] {
+  const plan = validatePortPlan(product.portPlan?.(ctx)).map((entry) => ({ ...entry }));
+  const fromOptions: StartWizardPortPlanEntry[] = [];
+  for (const spec of product.options ?? []) {
+    const port = ctx.options[spec.name];
+    if (spec.kind !== 'port' || typeof port !== 'number') continue;
+    const entry = plan.find((e) => e.port === port);
+    if (entry) {
+      entry.optionName ??= spec.name;
+      continue;
+    }
+    fromOptions.push({
+      port,
+      desiredService: spec.service ?? `${product.label} (${spec.name})`,
+      optionName: spec.name,
+      ...(spec.flexible !== undefined && { flexible: spec.flexible }),
+      ...(spec.onConflict !== undefined && { onConflict: spec.onConflict }),
+    });
+  }
+  return [...plan, ...validatePortPlan(fromOptions)];
 }
 
 function validatePortPlan(
@@ -428,29 +981,125 @@ function validatePortPlan(
         `portPlan[${i}].desiredService must be a non-empty string.`
       );
     }
+    const { host, family } = p as StartWizardPortPlanEntry;
+    if (host !== undefined && (typeof host !== 'string' || host.trim() === ''))
+      throw new Error(`portPlan[${i}].host must be a non-empty string.`);
+    if (family !== undefined && family !== 4 && family !== 6)
+      throw new Error(`portPlan[${i}].family must be 4 or 6.`);
+    validateFlexible(p as StartWizardPortPlanEntry, `portPlan[${i}]`);
+    validateConflictPolicy(p as StartWizardPortPlanEntry, `portPlan[${i}]`);
     return p as StartWizardPortPlanEntry;
   });
 }
 
+function validateFlexible(entry: StartWizardPortPlanEntry, path: string): void {
+  const { flexible } = entry;
+  if (flexible === undefined || typeof flexible === 'boolean') return;
+  if (flexible !== 'auto') {
+    const range = (flexible as { range?: unknown })?.range;
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      !isValidPort(range[0]) ||
+      !isValidPort(range[1]) ||
+      range[0] > range[1]
+    ) {
+      throw new Error(
+        `${path}.flexible must be a boolean, 'auto' or { range: [from, to] } with 1 <= from <= to <= 65535.`
+      );
+    }
+  }
+  if (!entry.optionName) {
+    throw new Error(
+      `${path}.optionName is required with flexible: 'auto' or a range, so the chosen port reaches the product.`
+    );
+  }
+}
+
+function validateConflictPolicy(entry: StartWizardPortPlanEntry, path: string): void {
+  const { onConflict, onConflictMatch } = entry;
+  if (onConflict !== undefined && !START_WIZARD_CONFLICT_POLICIES.includes(onConflict)) {
+    throw new Error(
+      `${path}.onConflict must be one of: ${START_WIZARD_CONFLICT_POLICIES.join(', ')}.`
+    );
+  }
+  if (
+    onConflictMatch !== undefined &&
+    !(onConflictMatch instanceof RegExp) &&
+    typeof onConflictMatch !== 'string'
+  ) {
+    throw new Error(`${path}.onConflictMatch must be a RegExp or a string.`);
+  }
+  if (typeof onConflictMatch === 'string') {
+    // Compile now so a bad pattern fails here, not midway through a run.
+    try {
+      new RegExp(onConflictMatch);
+    } catch {
+      throw new Error(`${path}.onConflictMatch is not a valid regular expression.`);
+    }
+  }
+  if (
+    onConflict === 'reassign' &&
+    (typeof entry.flexible !== 'object' && entry.flexible !== 'auto')
+  ) {
+    throw new Error(
+      `${path}.onConflict 'reassign' requires flexible: 'auto' or { range: [from, to] }.`
+    );
+  }
+}
+
+async function waitForLocalStackReady(
+  config: StartWizardConfig,
+  baseCtx: StartWizardContext
+): Promise<void> {
+  await waitForReadiness({
+    name: 'local stack',
+    checks: resolveReadinessChecks(
+      config.localStack?.readiness,
+      baseCtx,
+      'localStack.readiness'
+    ),
+    output: baseCtx.supervisor,
+  });
+}
+
+/**
+ * Release the held free ports among `ports` (all of them by default) and drop
+ * them from `holds`, so the process about to bind them can.
+ */
+async function releasePortHolds(holds: PortHold[], ports?: readonly number[]): Promise<void> {
+  const released = holds.filter((hold) => !ports || ports.includes(hold.port));
+  for (const hold of released) holds.splice(holds.indexOf(hold), 1);
+  await Promise.all(released.map((hold) => hold.release()));
+}
+
+type LocalStackAction = 'none' | 'start' | 'reuse' | 'restart';
+
 async function handleLocalStack({
   config,
   baseCtx,
   stackPorts,
+  dryRun = false,
 }: {
   config: StartWizardConfig;
   baseCtx: StartWizardContext;
   stackPorts: StartWizardPortPlanEntry[];
-}): Promise<{ ignorePorts: Set<number> }> {
-  if (baseCtx.mode !== 'local') return { ignorePorts: new Set() };
-  if (!config.localStack?.start) return { ignorePorts: new Set() };
+  /** Decide what to do without stopping, starting or waiting for the stack. */
+  dryRun?: boolean;
+}): Promise<{ ignorePorts: Set<number>; started: boolean; action: LocalStackAction }> {
+  if (!modeUsesLocalStack(baseCtx.modeSpec))
+    return { ignorePorts: new Set(), started: false, action: 'none' };
+  if (!config.localStack?.start)
+    return { ignorePorts: new Set(), started: false, action: 'none' };
 
-  // In local mode, localStack owns these ports. We should never treat them as
+  // In local-stack modes, localStack owns these ports. We should never treat them as
   // product-level conflicts after the stack is started/reused.
   const ignorePorts = new Set<number>(stackPorts.map((p) => p.port));
 
   const anyUp = await (async () => {
     for (const entry of stackPorts) {
-      if (await isPortOpen({ port: entry.port, timeoutMs: 500 })) return true;
+      const host = resolveBindHost(entry);
+      if (await isPortInUse({ port: entry.port, host })) return true;
     }
     return false;
   })();
@@ -470,28 +1119,33 @@ async function handleLocalStack({
     });
     if (!choice) throw new Error('Aborted.');
     if (choice.id === 'reuse') {
-      return { ignorePorts };
+      if (!dryRun) await waitForLocalStackReady(config, baseCtx);
+      return { ignorePorts, started: false, action: 'reuse' };
     }
     if (choice.id === 'restart') {
+      if (dryRun) return { ignorePorts, started: false, action: 'restart' };
       if (config.localStack.stop) {
         await config.localStack.stop(baseCtx);
       }
       // Fail-fast: if any localStack ports are still held after stop, resolve
       // them *before* starting anything that will spam logs to the TTY.
       const conflictsAfterStop = await collectPortConflicts(stackPorts);
-      await resolvePortConflictsInteractively({
+      const holds = await resolvePortConflictsInteractively({
         conflicts: conflictsAfterStop,
         kill: baseCtx.args.kill,
         yes: baseCtx.args.yes,
       });
+      await releasePortHolds(holds);
       await config.localStack.start(baseCtx);
-      return { ignorePorts };
+      await waitForLocalStackReady(config, baseCtx);
+      return { ignorePorts, started: true, action: 'restart' };
     }
   }
 
   if (anyUp && !isTty()) {
     // Non-interactive: default to reuse to avoid accidental kills.
-    return { ignorePorts };
+    if (!dryRun) await waitForLocalStackReady(config, baseCtx);
+    return { ignorePorts, started: false, action: 'reuse' };
   }
 
   const shouldStart = baseCtx.args.yes
@@ -506,115 +1160,1489 @@ async function handleLocalStack({
   // Resolve any unexpected conflicts *before* starting the stack (so the user
   // can actually interact with prompts without concurrent log spam).
   const conflictsBeforeStart = await collectPortConflicts(stackPorts);
-  await resolvePortConflictsInteractively({
+  const holds = await resolvePortConflictsInteractively({
     conflicts: conflictsBeforeStart,
     kill: baseCtx.args.kill,
     yes: baseCtx.args.yes,
+    dryRun,
   });
+  await releasePortHolds(holds);
+  if (dryRun) return { ignorePorts, started: false, action: 'start' };
 
   await config.localStack.start(baseCtx);
-  return { ignorePorts };
+  await waitForLocalStackReady(config, baseCtx);
+  return { ignorePorts, started: true, action: 'start' };
+}
+
+type DryRunPlan = {
+  dryRun: true;
+  repoRoot: string;
+  mode: string;
+  /** Whether `npm ci` would run. */
+  install: boolean;
+  localStack: LocalStackAction;
+  /** In start order. */
+  products: Array<{
+    id: string;
+    action: 'start' | 'reuse';
+    options: Record<string, unknown>;
+    ports: number[];
+  }>;
+  portConflicts: Array<{
+    port: number;
+    service: string;
+    product?: string;
+    listeners: Array<{ pid: number; command: string }>;
+    resolution?: PortConflictResolution;
+    newPort?: number;
+    /** PIDs that would be terminated. */
+    kill?: number[];
+  }>;
+};
+
+function planConflict(
+  conflict: PortConflict,
+  product: string | undefined
+): DryRunPlan['portConflicts'][number] {
+  const listenerPids = conflict.listeners.map((l) => l.pid);
+  const kill =
+    conflict.resolution === 'kill'
+      ? listenerPids
+      : conflict.resolution === 'restart'
+        ? [...new Set([...(conflict.previousRun?.pids ?? []), ...listenerPids])]
+        : undefined;
+  return {
+    port: conflict.port,
+    service: conflict.desiredService,
+    product,
+    listeners: conflict.listeners.map(({ pid, command }) => ({ pid, command })),
+    resolution: conflict.resolution,
+    newPort: conflict.newPort,
+    kill,
+  };
+}
+
+const LOCAL_STACK_PLAN_LABELS: Record<LocalStackAction, string> = {
+  none: 'not used',
+  start: 'would start',
+  reuse: 'would reuse the running stack',
+  restart: 'would stop and start again',
+};
+
+function printDryRunPlan(plan: DryRunPlan, { json }: { json: boolean }): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(plan, null, 2)}\n`);
+    return;
+  }
+  console.log('');
+  console.log('Dry run: nothing was started, stopped, killed or installed.');
+  console.log(`  mode=${plan.mode}`);
+  console.log(`  npm ci: ${plan.install ? 'would run' : 'skipped'}`);
+  console.log(`  local stack: ${LOCAL_STACK_PLAN_LABELS[plan.localStack]}`);
+  console.log('  products (in start order):');
+  for (const product of plan.products) {
+    const ports = product.ports.length ? ` (port ${product.ports.join(', ')})` : '';
+    const action =
+      product.action === 'reuse' ? 'would reuse the earlier run' : 'would start';
+    console.log(`    - ${product.id}: ${action}${ports}`);
+  }
+  if (!plan.portConflicts.length) return;
+  console.log('  port conflicts:');
+  for (const conflict of plan.portConflicts) {
+    const action =
+      conflict.resolution === 'reassign'
+        ? `move to ${conflict.newPort}`
+        : conflict.kill
+          ? `kill pid ${conflict.kill.join(', ')}`
+          : (conflict.resolution ?? 'unresolved');
+    console.log(`    - ${conflict.port} (${conflict.service}): ${action}`);
+  }
+}
+
+/**
+ * Answers recorded with `--save-answers` and replayed with `--answers`.
+ * Flags given on the command line take precedence over them.
+ */
+type WizardAnswers = {
+  /** Requested products, before `dependsOn` expansion. */
+  products: string[];
+  mode?: string;
+  /** Option values by product id, as chosen before any port reassignment. */
+  options: Record<string, Record<string, unknown>>;
+  conflicts: PortConflictDecision[];
+};
+
+const CONFLICT_RESOLUTIONS: PortConflictResolution[] = [
+  'kill',
+  'reassign',
+  'reuse',
+  'restart',
+  'continue',
+];
+
+function isYamlPath(file: string): boolean {
+  return /\.ya?ml$/i.test(file);
 }
 
+function answerValueError(spec: StartWizardOptionSpec, value: unknown): string | null {
+  switch (spec.kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected true or false';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected a number';
+    case 'port':
+      return isValidPort(value) ? null : 'expected a port (1-65535)';
+    case 'string':
+    case 'path':
+    case 'secret':
+      return typeof value === 'string' ? null : 'expected a string';
+    case 'multiselect': {
+      // Computed choices are checked once the wizard resolves them.
+      if (spec.choicesFrom) {
+        return Array.isArray(value) && value.every((id) => typeof id === 'string')
+          ? null
+          : 'expected a list of ids';
+      }
+      const ids = (spec.options ?? []).map((o) => o.id);
+      return Array.isArray(value) && value.every((id) => ids.includes(id))
+        ? null
+        : `expected a list of ${ids.join(', ')}`;
+    }
+    case 'select': {
+      if (spec.choicesFrom) return typeof value === 'string' ? null : 'expected a string';
+      const ids = (spec.options ?? []).map((o) => o.id);
+      return ids.includes(value as string)
+        ? null
+        : `"${String(value)}" is not one of ${ids.join(', ')}`;
+    }
+  }
+}
+
+/**
+ * Read an answers file (YAML for `.yml`/`.yaml`, JSON otherwise) and check it
+ * against `config`, so answers that went stale fail instead of being ignored.
+ */
+function readAnswers(file: string, config: StartWizardConfig): WizardAnswers {
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    return checkAnswers(isYamlPath(file) ? YAML.parse(text) : JSON.parse(text), config);
+  } catch (err) {
+    throw new Error(
+      `Invalid answers file ${file}: ${err instanceof Error ? err.message : String(err)}.`
+    );
+  }
+}
+
+/**
+ * The last run's choices as answers, or undefined when none were recorded or
+ * they no longer fit `config` (e.g. a product was renamed).
+ */
+function rememberedAnswers(
+  config: StartWizardConfig,
+  choices: StartWizardLastChoices | undefined
+): WizardAnswers | undefined {
+  if (!choices) return undefined;
+  try {
+    return checkAnswers(choices, config);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Short summary for the "Rerun last" choice, e.g. `web / dev / port=3001`. */
+function describeLastChoices(config: StartWizardConfig, last: WizardAnswers): string {
+  const several = last.products.length > 1;
+  const changed = Object.entries(last.options).flatMap(([productId, values]) => {
+    const product = config.products.find((p) => p.id === productId);
+    return Object.entries(values).flatMap(([name, value]) => {
+      const spec = product?.options?.find((o) => o.name === name);
+      // Only options that differ from their defaults.
+      if (!spec || value === (describeOption(spec).default ?? '')) return [];
+      return [`${several ? `${productId}.` : ''}${spec.flag ?? name}=${String(value)}`];
+    });
+  });
+  return [last.products.join(','), last.mode, changed.join(' ')]
+    .filter(Boolean)
+    .join(' / ');
+}
+
+/** Check parsed answers against `config`; throws naming the first bad answer. */
+function checkAnswers(raw: unknown, config: StartWizardConfig): WizardAnswers {
+  const fail = (reason: string) => new Error(reason);
+  if (!isPlainObject(raw)) throw fail('expected an object');
+  const { products = [], mode, options = {}, conflicts = [] } = raw;
+
+  if (!Array.isArray(products) || !products.every((id) => typeof id === 'string')) {
+    throw fail('"products" must be a list of product ids');
+  }
+  const available = config.products.map((p) => p.id).join(', ');
+  for (const id of products) {
+    if (!config.products.some((p) => p.id === id)) {
+      throw fail(`unknown product "${id}" (available: ${available})`);
+    }
+  }
+
+  const modes = config.modes ?? [];
+  if (mode !== undefined && !modes.some((m) => m.id === mode)) {
+    throw fail(
+      `unknown mode "${String(mode)}" (expected ${modes.map((m) => m.id).join('|')})`
+    );
+  }
+
+  if (!isPlainObject(options)) throw fail('"options" must map product ids to option values');
+  for (const [productId, values] of Object.entries(options)) {
+    const product = config.products.find((p) => p.id === productId);
+    if (!product) throw fail(`options for unknown product "${productId}" (available: ${available})`);
+    if (!isPlainObject(values)) throw fail(`options.${productId} must be an object`);
+    for (const [name, value] of Object.entries(values)) {
+      const spec = product.options?.find((o) => o.name === name);
+      if (!spec) throw fail(`unknown option ${productId}.${name}`);
+      const error = answerValueError(spec, value);
+      if (error) throw fail(`${productId}.${name}: ${error}`);
+    }
+  }
+
+  if (!Array.isArray(conflicts)) throw fail('"conflicts" must be a list');
+  conflicts.forEach((decision, i) => {
+    const valid =
+      isPlainObject(decision) &&
+      isValidPort(decision.port) &&
+      CONFLICT_RESOLUTIONS.includes(decision.resolution as PortConflictResolution) &&
+      (decision.resolution === 'reassign'
+        ? isValidPort(decision.newPort)
+        : decision.newPort === undefined);
+    if (!valid) {
+      throw fail(
+        `conflicts[${i}] must be { port, resolution: ${CONFLICT_RESOLUTIONS.join('|')} } (plus newPort for reassign)`
+      );
+    }
+  });
+
+  return {
+    products,
+    mode: mode as string | undefined,
+    options: options as WizardAnswers['options'],
+    conflicts: conflicts as PortConflictDecision[],
+  };
+}
+
+function writeAnswers(
+  file: string,
+  answers: WizardAnswers,
+  log: (line: string) => void
+): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    isYamlPath(file) ? YAML.stringify(answers) : `${JSON.stringify(answers, null, 2)}\n`
+  );
+  log(`Saved answers to ${file}`);
+}
+
+type InspectedPort = {
+  port: number;
+  service: string;
+  status: 'listening' | 'free' | 'unknown';
+  listeners: Array<{ pid: number; command: string }>;
+};
+
+/**
+ * What `status` and `stop` look at: each product's port plan (and the local
+ * stack's ports) computed from `--mode` (or the default mode) and option
+ * flags/defaults, without prompting or starting anything.
+ */
+async function inspectConfig({ parsed, cwd }: { parsed: CommonCliArgs; cwd: string }) {
+  const { repoRoot, configPath } = resolveConfigPath({
+    cwd,
+    configPathArg: parsed.configPath,
+  });
+  const { config, local } = await loadConfig(configPath);
+  parsed = withLocalDefaults(parsed, local);
+  const modes = config.modes ?? [];
+  const modeSpec = parsed.mode
+    ? requireMode(config, parsed.mode)
+    : (modes.find((m) => m.default) ?? modes[0]!);
+  const optionValuesFromFlags = parseProductOptionTokens(
+    config.products,
+    parsed.remaining,
+    { repoRoot, mode: modeSpec.id }
+  );
+  // Never started; only satisfies the context type for portPlan callbacks.
+  const supervisor = createSupervisor({ handleSignals: false });
+
+  const products: Array<{
+    product: StartWizardProduct;
+    ports: StartWizardPortPlanEntry[];
+    ctx?: StartWizardContext;
+    error?: string;
+  }> = [];
+  for (const product of config.products) {
+    try {
+      const ctx: StartWizardContext = {
+        repoRoot,
+        productId: product.id,
+        mode: modeSpec.id,
+        modeSpec,
+        args: {
+          yes: parsed.yes,
+          kill: parsed.kill,
+          allowProd: parsed.allowProd,
+          install: parsed.install,
+          rawArgv: [],
+        },
+        options: await fillOptionDefaultsAndPrompts(
+          product.options,
+          {
+            ...parseOptionEnv(product.options),
+            ...optionValuesFromFlags.get(product.id),
+          },
+          product.id,
+          {
+            repoRoot,
+            mode: modeSpec.id,
+            fromFlags: optionValuesFromFlags.get(product.id),
+            fromEnv: parseOptionEnv(product.options),
+            interactive: false,
+          }
+        ),
+        passThroughArgs: parsed.passThroughArgs,
+        env: { ...process.env },
+        supervisor,
+      };
+      products.push({ product, ctx, ports: portPlanFor(product, ctx) });
+    } catch (err) {
+      products.push({ product, ports: [], error: (err as Error)?.message ?? String(err) });
+    }
+  }
+
+  const stackCtx = products.find((p) => p.ctx)?.ctx;
+  let stackPorts: StartWizardPortPlanEntry[] = [];
+  let stackError: string | undefined;
+  if (config.localStack?.ports && stackCtx) {
+    try {
+      stackPorts = validatePortPlan(config.localStack.ports(stackCtx));
+    } catch (err) {
+      stackError = (err as Error)?.message ?? String(err);
+    }
+  }
+
+  return {
+    repoRoot,
+    config,
+    mode: modeSpec.id,
+    products,
+    stackCtx,
+    stackPorts,
+    stackError,
+    local,
+    // Read-only: status and list must not rewrite the registry.
+    runs: readRunRegistry(repoRoot, { prune: false }),
+  };
+}
+
+function inspectPorts(entries: StartWizardPortPlanEntry[]): InspectedPort[] {
+  return entries.map((entry) => {
+    const lookup = lookupPortListeners(entry.port, { host: resolveBindHost(entry) });
+    return {
+      port: entry.port,
+      service: entry.desiredService,
+      status:
+        lookup.status === 'in-use'
+          ? 'listening'
+          : lookup.status === 'free'
+            ? 'free'
+            : 'unknown',
+      listeners:
+        lookup.status === 'in-use'
+          ? lookup.pids.map((pid) => ({ pid, command: describePid(pid) }))
+          : [],
+    };
+  });
+}
+
+function printInspectedPorts(ports: InspectedPort[]): void {
+  if (!ports.length) console.log('    (no ports declared)');
+  for (const p of ports) {
+    const mark = p.status === 'listening' ? '●' : p.status === 'free' ? '○' : '?';
+    const who =
+      p.status === 'listening'
+        ? p.listeners.length
+          ? p.listeners.map((l) => `pid ${l.pid}: ${l.command}`).join('; ')
+          : 'listening (process not visible to this user)'
+        : p.status === 'free'
+          ? 'not listening'
+          : 'cannot be checked';
+    console.log(`    ${mark} ${p.port} (${p.service}): ${who}`);
+  }
+}
+
+function writeJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/** `start-wizard status`: which declared ports are listening, and by whom. */
+async function runStatus({
+  parsed,
+  cwd,
+}: {
+  parsed: CommonCliArgs;
+  cwd: string;
+}): Promise<number> {
+  const inspected = await inspectConfig({ parsed, cwd });
+  const report = {
+    mode: inspected.mode,
+    products: inspected.products.map(({ product, ports, error }) => {
+      const run = inspected.runs.find((r) => r.productId === product.id);
+      return {
+        id: product.id,
+        label: product.label,
+        ports: inspectPorts(ports),
+        run: run && {
+          mode: run.mode,
+          pids: run.pids,
+          wizardPid: run.wizardPid,
+          startedAt: run.startedAt,
+        },
+        error,
+      };
+    }),
+    localStack: inspected.config.localStack
+      ? { ports: inspectPorts(inspected.stackPorts), error: inspected.stackError }
+      : undefined,
+  };
+  if (parsed.json) {
+    writeJson(report);
+    return 0;
+  }
+
+  console.log(`Status (ports for mode ${report.mode}):`);
+  for (const product of report.products) {
+    const run = product.run
+      ? ` (started by start-wizard in mode ${product.run.mode} at ${product.run.startedAt})`
+      : '';
+    console.log(`  ${product.id} (${product.label})${run}`);
+    if (product.error) {
+      console.log(`    ⚠ ${product.error}`);
+      continue;
+    }
+    printInspectedPorts(product.ports);
+  }
+  if (report.localStack) {
+    console.log('  local stack');
+    if (report.localStack.error) console.log(`    ⚠ ${report.localStack.error}`);
+    else printInspectedPorts(report.localStack.ports);
+  }
+  return 0;
+}
+
+type OptionDescription = {
+  name: string;
+  /** CLI flag (e.g. `--port`); absent when the option is prompt/default only. */
+  flag?: string;
+  /** Environment variable that sets the option. */
+  env?: string;
+  kind: StartWizardOptionSpec['kind'];
+  default?: unknown;
+  required?: boolean;
+  values?: Array<{ id: string; label: string }>;
+  min?: number;
+  max?: number;
+  description?: string;
+  /** The option's `when`, e.g. `mode local`; absent when it always applies. */
+  when?: string;
+  /** True when the default is computed from the mode and earlier options. */
+  defaultComputed?: boolean;
+  /** True when the choices come from `choicesFrom`, so `values` is absent. */
+  choicesComputed?: boolean;
+  /** The option's `pattern`, as `/.../`. */
+  pattern?: string;
+  /** Where `default` comes from: the shared config or the local override file. */
+  defaultSource?: DefaultSource;
+};
+
+type DefaultSource = 'config' | 'local';
+
+type ProductDescription = {
+  id: string;
+  label: string;
+  description?: string;
+  dependsOn: string[];
+  options: OptionDescription[];
+  /** Port plan for the listed mode, with option defaults and flags applied. */
+  ports: Array<{ port: number; service: string; flexible: boolean; optionName?: string }>;
+  /** Set when the port plan could not be computed (e.g. a required option). */
+  error?: string;
+};
+
+function describeOption(
+  spec: StartWizardOptionSpec,
+  defaultSource: DefaultSource = 'config'
+): OptionDescription {
+  const description = describeOptionSpec(spec);
+  return description.default === undefined ? description : { ...description, defaultSource };
+}
+
+function describeOptionSpec(optionSpec: StartWizardOptionSpec): OptionDescription {
+  const rawDefault =
+    optionSpec.kind === 'select'
+      ? optionSpec.defaultId
+      : optionSpec.kind === 'multiselect'
+        ? optionSpec.defaultIds
+        : optionSpec.kind === 'secret'
+          ? undefined
+          : optionSpec.defaultValue;
+  const computed = typeof rawDefault === 'function';
+  const base = {
+    name: optionSpec.name,
+    flag: optionSpec.flag ? `--${optionSpec.flag}` : undefined,
+    env: optionSpec.env,
+    kind: optionSpec.kind,
+    description: optionSpec.description,
+    when: optionSpec.when && describeOptionCondition(optionSpec.when),
+    defaultComputed: computed || undefined,
+    choicesComputed: ('choicesFrom' in optionSpec && Boolean(optionSpec.choicesFrom)) || undefined,
+    pattern:
+      'pattern' in optionSpec && optionSpec.pattern !== undefined
+        ? String(optionPattern(optionSpec.pattern))
+        : undefined,
+  };
+  // Computed defaults depend on the run, so there is no default to show.
+  const spec = computed
+    ? { ...optionSpec, defaultValue: undefined, defaultId: undefined, defaultIds: undefined }
+    : optionSpec;
+  switch (spec.kind) {
+    case 'select':
+      return {
+        ...base,
+        default: spec.defaultId ?? spec.options?.[spec.prompt?.defaultIndex ?? 0]?.id,
+        values: spec.options?.map(({ id, label }) => ({ id, label })),
+      };
+    case 'number':
+      return {
+        ...base,
+        default: spec.defaultValue,
+        required: spec.required,
+        min: spec.min,
+        max: spec.max,
+      };
+    case 'multiselect':
+      return {
+        ...base,
+        default: spec.defaultIds,
+        required: spec.required,
+        values: spec.options?.map(({ id, label }) => ({ id, label })),
+      };
+    case 'string':
+    case 'path':
+    case 'port':
+      return { ...base, default: spec.defaultValue, required: spec.required };
+    case 'secret':
+      return { ...base, required: spec.required };
+    case 'boolean':
+      return { ...base, default: spec.prompt?.defaultValue ?? spec.defaultValue ?? false };
+  }
+}
+
+function describeProducts(
+  inspected: Awaited<ReturnType<typeof inspectConfig>>,
+  ids: string[]
+): ProductDescription[] {
+  const products = ids.length
+    ? ids.map((id) => requireProduct(inspected.config, id))
+    : inspected.config.products;
+  return products.map((product) => {
+    const { ports, error } = inspected.products.find((p) => p.product === product)!;
+    const overrides = inspected.local?.config.products?.[product.id]?.options ?? {};
+    return {
+      id: product.id,
+      label: product.label,
+      description: product.description,
+      dependsOn: product.dependsOn ?? [],
+      options: (product.options ?? []).map((spec) =>
+        describeOption(spec, spec.name in overrides ? 'local' : 'config')
+      ),
+      ports: ports.map((entry) => ({
+        port: entry.port,
+        service: entry.desiredService,
+        flexible: Boolean(entry.flexible),
+        optionName: entry.optionName,
+      })),
+      error,
+    };
+  });
+}
+
+/**
+ * With a local override file, option defaults are annotated with where they
+ * come from: `(config)` or the file's name.
+ */
+function printProductDescription(
+  product: ProductDescription,
+  mode: string,
+  local?: LoadedLocalConfig
+): void {
+  const deps = product.dependsOn.length
+    ? ` (depends on ${product.dependsOn.join(', ')})`
+    : '';
+  console.log(`${product.id}: ${product.label}${deps}`);
+  if (product.description) console.log(`  ${product.description}`);
+  if (product.options.length) {
+    console.log('  Options:');
+    for (const option of product.options) {
+      const flag =
+        option.kind === 'boolean' && option.flag
+          ? `${option.flag} | --no-${option.flag.slice(2)}`
+          : option.flag
+            ? `${option.flag} <${
+                option.kind === 'select' ? 'id' : option.kind === 'multiselect' ? 'id,...' : option.kind
+              }>`
+            : `(${option.name}, no flag)`;
+      const details = [
+        option.kind,
+        option.values && `one of ${option.values.map((v) => v.id).join('|')}`,
+        option.min !== undefined && `min ${option.min}`,
+        option.max !== undefined && `max ${option.max}`,
+        option.required && 'required',
+        option.env && `env ${option.env}`,
+        option.when && `only when ${option.when}`,
+        option.defaultComputed && 'default computed',
+        option.choicesComputed && 'choices computed',
+        option.pattern && `matching ${option.pattern}`,
+        option.default !== undefined &&
+          option.default !== '' &&
+          `default ${String(option.default)}${
+            local ? ` (${describeSource(option.defaultSource, local)})` : ''
+          }`,
+      ].filter(Boolean);
+      console.log(`    ${flag.padEnd(28)} ${details.join(', ')}`);
+      if (option.description) console.log(`    ${''.padEnd(28)} ${option.description}`);
+    }
+  }
+  if (product.error) {
+    console.log(`  Ports (mode ${mode}): ⚠ ${product.error}`);
+  } else if (product.ports.length) {
+    console.log(`  Ports (mode ${mode}):`);
+    for (const port of product.ports) {
+      const flexible = port.flexible ? ' (flexible)' : '';
+      console.log(`    ${port.port} ${port.service}${flexible}`);
+    }
+  }
+}
+
+function describeSource(source: DefaultSource | undefined, local: LoadedLocalConfig): string {
+  return source === 'local' ? path.basename(local.path) : 'config';
+}
+
+/** `start-wizard list [product...]`: products, their options and port plans. */
+async function runList({
+  parsed,
+  cwd,
+}: {
+  parsed: CommonCliArgs;
+  cwd: string;
+}): Promise<number> {
+  const inspected = await inspectConfig({ parsed, cwd });
+  const ids = parsed.commandArgs.flatMap((arg) => arg.split(',')).filter(Boolean);
+  const products = describeProducts(inspected, ids);
+  const { config, local } = inspected;
+  const sourceOf = (override: unknown): DefaultSource =>
+    override === undefined ? 'config' : 'local';
+  const defaults = {
+    mode: {
+      id: (config.modes ?? []).find((m) => m.default)?.id,
+      source: sourceOf(local?.config.defaultMode),
+    },
+    product: config.defaultProduct
+      ? { id: config.defaultProduct, source: sourceOf(local?.config.defaultProduct) }
+      : undefined,
+    yes: local?.config.yes,
+    install: local?.config.install,
+  };
+  if (parsed.json) {
+    writeJson({
+      mode: inspected.mode,
+      localConfig: local?.path,
+      defaults,
+      modes: (config.modes ?? []).map(({ id, label }) => ({ id, label })),
+      profiles: (config.profiles ?? []).map(({ id, label, products }) => ({
+        id,
+        label,
+        products,
+      })),
+      products,
+    });
+    return 0;
+  }
+
+  if (!ids.length) {
+    const annotate = (source: DefaultSource) =>
+      local ? `default, ${describeSource(source, local)}` : 'default';
+    console.log(
+      `Modes: ${(config.modes ?? [])
+        .map((m) => (m.default ? `${m.id} (${annotate(defaults.mode.source)})` : m.id))
+        .join(', ')}`
+    );
+    if (defaults.product) {
+      const source = local ? ` (${describeSource(defaults.product.source, local)})` : '';
+      console.log(`Default product: ${defaults.product.id}${source}`);
+    }
+    if (local) {
+      const flags = [
+        local.config.yes && '--yes',
+        local.config.install !== undefined &&
+          (local.config.install ? '--install' : '--no-install'),
+      ].filter(Boolean);
+      console.log(
+        `Local overrides: ${local.path}${flags.length ? ` (implies ${flags.join(' ')})` : ''}`
+      );
+    }
+    if (config.profiles?.length) {
+      console.log('Profiles:');
+      for (const profile of config.profiles) {
+        console.log(`  ${profile.id}: ${profile.products.join(', ')}`);
+      }
+    }
+    console.log('');
+  }
+  for (const product of products) {
+    printProductDescription(product, inspected.mode, local);
+    console.log('');
+  }
+  return 0;
+}
+
+async function selectProductsToStop(
+  inspected: Awaited<ReturnType<typeof inspectConfig>>,
+  parsed: CommonCliArgs
+): Promise<StartWizardProduct[]> {
+  const { config } = inspected;
+  if (parsed.all) return config.products;
+  const ids = parsed.commandArgs.flatMap((arg) => arg.split(',')).filter(Boolean);
+  if (ids.length) return ids.map((id) => requireProduct(config, id));
+  if (!isTty()) {
+    throw new Error(
+      'Specify products to stop (start-wizard stop <product>[,<product>...]) or --all.'
+    );
+  }
+  const running = inspected.products.filter(
+    ({ product, ports }) =>
+      inspected.runs.some((r) => r.productId === product.id) ||
+      inspectPorts(ports).some((p) => p.status === 'listening')
+  );
+  if (!running.length) return [];
+  const picked = await multiSelectPrompt({
+    title: 'Which products do you want to stop?',
+    options: running.map(({ product }) => ({ id: product.id, label: product.label })),
+  });
+  if (!picked) throw new Error('Aborted.');
+  return picked.map((o) => requireProduct(config, o.id));
+}
+
+/**
+ * `start-wizard stop [product...|--all]`: stop the processes listening on the
+ * products' declared ports (and the ones an earlier run recorded). A wizard
+ * whose products are all being stopped is itself asked to shut down, so its
+ * supervisor does not restart them. `--all` also stops the local stack.
+ */
+async function runStop({
+  parsed,
+  cwd,
+  log,
+}: {
+  parsed: CommonCliArgs;
+  cwd: string;
+  /** Progress output (stderr under `--json`). */
+  log: (line: string) => void;
+}): Promise<number> {
+  const inspected = await inspectConfig({ parsed, cwd });
+  const { repoRoot, runs } = inspected;
+  const targets = await selectProductsToStop(inspected, parsed);
+  const targetIds = new Set(targets.map((p) => p.id));
+
+  // Wizards that only run products being stopped: shut them down as a whole.
+  const wizardPids = new Set(
+    runs
+      .filter((run) => targetIds.has(run.productId) && isRecordedProcess(run, run.wizardPid))
+      .map((run) => run.wizardPid)
+      .filter(
+        (pid) =>
+          pid !== process.pid &&
+          runs.filter((r) => r.wizardPid === pid).every((r) => targetIds.has(r.productId))
+      )
+  );
+  await Promise.all(
+    [...wizardPids].map((pid) => terminateProcess(pid, { graceMs: 10_000 }))
+  );
+
+  const stopped: Array<{
+    id: string;
+    pids: number[];
+    stillListening: number[];
+    /** Ports whose listeners could not be looked up. */
+    undetermined: number[];
+    /** Listeners the wizard did not start on ports whose policy forbids killing. */
+    leftRunning: Array<{ port: number; pids: number[] }>;
+  }> = [];
+  for (const product of targets) {
+    const entries =
+      inspected.products.find((p) => p.product.id === product.id)?.ports ?? [];
+    const productRuns = runs.filter((r) => r.productId === product.id);
+    const inspectedPorts = inspectPorts(entries);
+    const listenerPids = inspectedPorts.flatMap((p) => p.listeners.map((l) => l.pid));
+    // Recorded PIDs may have been reused since; only signal the run's own.
+    const recordedPids = productRuns.flatMap((r) =>
+      r.pids.filter((pid) => isRecordedProcess(r, pid, listenerPids))
+    );
+    // Other listeners only where the entry's policy would kill them on conflict.
+    const killableListenerPids = inspectedPorts.flatMap((p, i) =>
+      canKillListeners(entries[i]!) ? p.listeners.map((l) => l.pid) : []
+    );
+    const pids = [...new Set([...recordedPids, ...killableListenerPids])].filter(
+      (pid) => pid !== process.pid && isPidAlive(pid)
+    );
+    await Promise.all(pids.map((pid) => terminateProcess(pid, { tree: true })));
+
+    const stillListening: number[] = [];
+    const undetermined: number[] = [];
+    const leftRunning: Array<{ port: number; pids: number[] }> = [];
+    for (const [i, entry] of entries.entries()) {
+      const others = inspectedPorts[i]!.listeners
+        .map((l) => l.pid)
+        .filter((pid) => !pids.includes(pid));
+      if (!canKillListeners(entry) && others.length) {
+        leftRunning.push({ port: entry.port, pids: others });
+        continue;
+      }
+      const release = await waitForPortRelease({
+        port: entry.port,
+        host: resolveBindHost(entry),
+      });
+      if (release.free === null) undetermined.push(entry.port);
+      else if (!release.free) stillListening.push(entry.port);
+    }
+    for (const run of productRuns) forgetRuns(repoRoot, run.wizardPid, product.id);
+    stopped.push({ id: product.id, pids, stillListening, undetermined, leftRunning });
+  }
+
+  let localStack: 'stopped' | 'not-stopped' = 'not-stopped';
+  if (parsed.all && inspected.config.localStack?.stop && inspected.stackCtx) {
+    log('Stopping local stack…');
+    await inspected.config.localStack.stop(inspected.stackCtx);
+    localStack = 'stopped';
+  }
+
+  const failed = stopped.some((s) => s.stillListening.length);
+  if (parsed.json) {
+    writeJson({ stopped, localStack });
+    return failed ? 1 : 0;
+  }
+  if (!targets.length) console.log('Nothing is running.');
+  for (const s of stopped) {
+    if (s.stillListening.length) {
+      console.log(`✖ ${s.id}: port ${s.stillListening.join(', ')} still in use`);
+    } else if (s.pids.length) {
+      console.log(`■ Stopped ${s.id} (pid ${s.pids.join(', ')})`);
+    } else {
+      console.log(`○ ${s.id} was not running`);
+    }
+    if (s.undetermined.length) {
+      console.log(`⚠ ${s.id}: cannot tell whether port ${s.undetermined.join(', ')} is free`);
+    }
+    for (const left of s.leftRunning) {
+      console.log(
+        `○ ${s.id}: left pid ${left.pids.join(', ')} on port ${left.port} running (not started by the wizard)`
+      );
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+/**
+ * Whether `stop` may signal listeners it did not start on `entry`'s port: only
+ * where a conflict could be resolved by killing (`prompt`, `kill`), never on
+ * e.g. a shared database marked `reuse` or `abort`.
+ */
+function canKillListeners(entry: StartWizardPortPlanEntry): boolean {
+  const policy = entry.onConflict ?? 'prompt';
+  return policy === 'prompt' || policy === 'kill';
+}
+
+/** Flags completed everywhere; keep `printHelp` in sync with them. */
+const COMMON_FLAGS = START_WIZARD_FLAGS.map((flag) => `--${flag}`);
+
+const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+/** Hidden command the completion scripts call back into. */
+const COMPLETE_COMMAND = '__complete';
+
+function completionScript(shell: string): string {
+  switch (shell) {
+    case 'bash':
+      return `# start-wizard bash completion
+_start_wizard() {
+  local IFS=$'\\n'
+  COMPREPLY=($(start-wizard ${COMPLETE_COMMAND} "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F _start_wizard start-wizard
+`;
+    case 'zsh':
+      return `#compdef start-wizard
+_start_wizard() {
+  local out
+  out=$(start-wizard ${COMPLETE_COMMAND} "\${(@)words[2,CURRENT]}" 2>/dev/null)
+  if [[ -n $out ]]; then
+    compadd -- \${(f)out}
+  else
+    _files
+  fi
+}
+compdef _start_wizard start-wizard
+`;
+    case 'fish':
+      return `# start-wizard fish completion
+function __start_wizard_complete
+    set -l tokens (commandline -opc) (commandline -ct)
+    start-wizard ${COMPLETE_COMMAND} $tokens[2..-1] 2>/dev/null
+end
+complete -c start-wizard -f -a '(__start_wizard_complete)'
+`;
+    default:
+      throw new Error(
+        `Unknown shell "${shell}". Usage: start-wizard completion ${COMPLETION_SHELLS.join('|')}`
+      );
+  }
+}
+
+/**
+ * Completion candidates for the last of `words` (the word being typed), given
+ * the words before it. `config` is null when it could not be loaded.
+ */
+function completeWords(config: StartWizardConfig | null, words: string[]): string[] {
+  const current = words.at(-1) ?? '';
+  // bash splits `--mode=d` into `--mode`, `=`, `d`.
+  const prev = words.at(-2) === '=' ? (words.at(-3) ?? '') : (words.at(-2) ?? '');
+  const before = words.slice(0, -1);
+
+  const productIds = config?.products.map((p) => p.id) ?? [];
+  const selectedProducts = (() => {
+    const ids = new Set<string>();
+    for (let i = 0; i < before.length; i += 1) {
+      const word = before[i]!;
+      const value = word.startsWith('--product=')
+        ? word.slice('--product='.length)
+        : word === '--product'
+          ? before[i + 1]
+          : undefined;
+      for (const id of value?.split(',') ?? []) ids.add(id);
+    }
+    return config?.products.filter((p) => ids.has(p.id)) ?? [];
+  })();
+
+  // Product option flags, also as `--<product>.<flag>` when several products.
+  const optionFlags = new Map<string, StartWizardOptionSpec>();
+  for (const product of selectedProducts) {
+    for (const spec of product.options ?? []) {
+      if (!spec.flag) continue;
+      optionFlags.set(`--${spec.flag}`, spec);
+      optionFlags.set(`--${product.id}.${spec.flag}`, spec);
+    }
+  }
+
+  const valuesFor = (flag: string, partial: string): string[] | null => {
+    if (flag === '--product') {
+      // Complete the last entry of a comma-separated list.
+      const head = partial.slice(0, partial.lastIndexOf(',') + 1);
+      return productIds.map((id) => `${head}${id}`);
+    }
+    if (flag === '--profile') return config?.profiles?.map((p) => p.id) ?? [];
+    if (flag === '--mode') return config?.modes?.map((m) => m.id) ?? [];
+    // File arguments: leave them to the shell's file completion.
+    if (['--config', '--answers', '--save-answers'].includes(flag)) return [];
+    const spec = optionFlags.get(flag);
+    if (!spec || spec.kind === 'boolean') return null;
+    if (spec.kind === 'multiselect') {
+      const head = partial.slice(0, partial.lastIndexOf(',') + 1);
+      return (spec.options ?? []).map((o) => `${head}${o.id}`);
+    }
+    // Paths are left to the shell's file completion; computed choices are
+    // not known without running the config.
+    return spec.kind === 'select' ? (spec.options ?? []).map((o) => o.id) : [];
+  };
+
+  let candidates: string[];
+  const eqIdx = current.indexOf('=');
+  if (current.startsWith('--') && eqIdx > 0) {
+    const flag = current.slice(0, eqIdx);
+    candidates = (valuesFor(flag, current.slice(eqIdx + 1)) ?? []).map(
+      (value) => `${flag}=${value}`
+    );
+  } else if (valuesFor(prev, current) !== null && prev.startsWith('--')) {
+    candidates = valuesFor(prev, current) ?? [];
+  } else if (current.startsWith('-')) {
+    candidates = [
+      ...COMMON_FLAGS,
+      ...[...optionFlags].flatMap(([flag, spec]) =>
+        spec.kind === 'boolean' ? [flag, `--no-${flag.slice(2)}`] : [flag]
+      ),
+    ];
+  } else {
+    const command = before.find((w) => !w.startsWith('-'));
+    if (command === 'completion') candidates = [...COMPLETION_SHELLS];
+    else if (command === 'stop' || command === 'list') candidates = productIds;
+    else if (command === undefined) candidates = [...START_WIZARD_COMMANDS];
+    else candidates = [];
+  }
+  return [...new Set(candidates)].filter((c) => c.startsWith(current));
+}
+
+/** Print completion candidates, one per line. Never fails. */
+async function runComplete({ words, cwd }: { words: string[]; cwd: string }) {
+  let config: StartWizardConfig | null = null;
+  try {
+    const configIdx = words.indexOf('--config');
+    const { configPath } = resolveConfigPath({
+      cwd,
+      configPathArg: configIdx >= 0 ? words[configIdx + 1] : undefined,
+    });
+    ({ config } = await loadConfig(configPath));
+  } catch {
+    // Still complete commands and common flags.
+  }
+  const candidates = completeWords(config, words.length ? words : ['']);
+  if (candidates.length) process.stdout.write(`${candidates.join('\n')}\n`);
+  return 0;
+}
+
+/**
+ * Run the wizard. Resolves with the process exit code: 0, or the exit code of
+ * the first supervised child that exited.
+ */
 export async function runStartWizard({
   argv,
   cwd,
 }: {
   argv: string[];
   cwd: string;
-}): Promise<void> {
+}): Promise<number> {
+  if (argv[0] === COMPLETE_COMMAND) {
+    return await runComplete({ words: argv.slice(1), cwd });
+  }
   const parsed = parseCommonCliArgs(argv);
+  if (parsed.command === 'completion') {
+    process.stdout.write(completionScript(parsed.commandArgs[0] ?? ''));
+    return 0;
+  }
   if (parsed.help) {
     printHelp();
-    return;
+    if (parsed.product) {
+      // Per-product help: `start-wizard --product web --help`.
+      const inspected = await inspectConfig({ parsed, cwd });
+      const ids = parsed.product.split(',').filter(Boolean);
+      for (const product of describeProducts(inspected, ids)) {
+        printProductDescription(product, inspected.mode, inspected.local);
+        console.log('');
+      }
+    }
+    return 0;
+  }
+  if (parsed.json && !parsed.dryRun && !parsed.command) {
+    throw new Error('--json is only supported with --dry-run, status, stop and list.');
   }
 
+  // Under --json, stdout carries only the JSON output; progress goes to stderr.
+  const log = parsed.json
+    ? (line: string) => console.error(line)
+    : (line: string) => console.log(line);
+  if (parsed.command === 'status') return await runStatus({ parsed, cwd });
+  if (parsed.command === 'stop') return await runStop({ parsed, cwd, log });
+  if (parsed.command === 'list') return await runList({ parsed, cwd });
+  return await runWizard({ parsed, argv, cwd, log });
+}
+
+async function runWizard({
+  parsed,
+  argv,
+  cwd,
+  log,
+}: {
+  parsed: CommonCliArgs;
+  argv: string[];
+  cwd: string;
+  /** Progress output (stderr under `--json`). */
+  log: (line: string) => void;
+}): Promise<number> {
   const { repoRoot, configPath } = resolveConfigPath({
     cwd,
     configPathArg: parsed.configPath,
   });
 
-  const config = await loadConfig(configPath);
+  const { config, local } = await loadConfig(configPath);
+  parsed = withLocalDefaults(parsed, local);
+  const last = rememberedAnswers(config, readLastChoices(repoRoot));
+  if (parsed.last && parsed.answersPath) {
+    throw new Error('Pass either --answers or --last, not both.');
+  }
+  if (parsed.last && !last) {
+    throw new Error(
+      'No earlier choices to rerun (or they no longer match the config). Run the wizard once without --last.'
+    );
+  }
+  let answers = parsed.answersPath
+    ? readAnswers(path.resolve(cwd, parsed.answersPath), config)
+    : parsed.last
+      ? last
+      : undefined;
+
+  const selection = await selectProducts(config, {
+    productArg:
+      parsed.product ??
+      (parsed.profile ? undefined : answers?.products.join(',') || undefined),
+    profileArg: parsed.profile,
+    last,
+  });
+  if (selection.rerunLast) answers = last;
+  const requested = selection.products;
+  const products = resolveStartOrder(
+    config.products,
+    requested.map((p) => p.id)
+  );
+  const added = products.filter((p) => !requested.includes(p));
+  if (added.length) {
+    log(
+      `Including dependencies: ${added.map((p) => p.id).join(', ')}`
+    );
+  }
 
-  const product = await selectProduct(config, parsed.product);
-  const mode = await selectMode(config, parsed.mode);
+  const modeSpec = await selectMode(config, parsed.mode ?? answers?.mode, last?.mode);
+  const mode = modeSpec.id;
 
   const allowProd = await enforceProdGuard({
-    mode,
+    mode: modeSpec,
     allowProd: parsed.allowProd,
     yes: parsed.yes,
   });
 
-  await ensureInstall({
+  const install = await ensureInstall({
     repoRoot,
     installChoice: parsed.install,
     yes: parsed.yes,
+    dryRun: parsed.dryRun,
   });
 
-  const optionValuesFromFlags = parseOptionTokens(
-    product.options,
-    parsed.remaining
-  );
-  const options = await fillOptionDefaultsAndPrompts(
-    product.options,
-    optionValuesFromFlags,
-    product.id
+  const optionValuesFromFlags = parseProductOptionTokens(
+    products,
+    parsed.remaining,
+    { repoRoot, mode }
   );
+  let localStackStarted = false;
+  let localStackCtx: StartWizardContext | undefined;
+  const supervisor = createSupervisor({
+    onShutdown: async () => {
+      forgetRuns(repoRoot, process.pid);
+      if (!localStackStarted || !localStackCtx) return;
+      if (!config.localStack?.stopOnExit || !config.localStack.stop) return;
+      log('Stopping local stack…');
+      await config.localStack.stop(localStackCtx);
+    },
+  });
 
+  const contexts = new Map<string, StartWizardContext>();
+  const chosenOptions: WizardAnswers['options'] = {};
+  // Startup summary lines for option values taken from the environment.
+  const optionsFromEnv: string[] = [];
+  for (const product of products) {
+    const fromFlags = optionValuesFromFlags.get(product.id) ?? {};
+    const fromEnv = parseOptionEnv(product.options);
+    const options = await fillOptionDefaultsAndPrompts(
+      product.options,
+      // flag > env > saved answers; prompts and defaults fill the rest.
+      { ...answers?.options[product.id], ...fromEnv, ...fromFlags },
+      product.id,
+      { repoRoot, mode, fromFlags, fromEnv, remembered: last?.options[product.id] }
+    );
+    chosenOptions[product.id] = withoutSecrets(product.options, options);
+    const shown = maskSecrets(product.options, options);
+    for (const spec of product.options ?? []) {
+      if (spec.name in fromEnv && spec.name in options && !(spec.name in fromFlags)) {
+        optionsFromEnv.push(
+          `${product.id}.${spec.name}=${String(shown[spec.name])} (from ${spec.env})`
+        );
+      }
+    }
+    const ctx: StartWizardContext = {
+      repoRoot,
+      productId: product.id,
+      mode,
+      modeSpec,
+      args: {
+        yes: parsed.yes,
+        kill: parsed.kill,
+        allowProd,
+        install: parsed.install,
+        rawArgv: argv,
+      },
+      options,
+      passThroughArgs: parsed.passThroughArgs,
+      // Resolved once ports are final.
+      env: { ...process.env },
+      supervisor: supervisor.unit({
+        name: product.id,
+        restart: product.restart,
+        start: () => product.start(ctx),
+      }),
+    };
+    contexts.set(product.id, ctx);
+  }
+  // The local stack is shared; it sees the first product in start order, with
+  // its own supervisor unit so its processes restart independently.
   const baseCtx: StartWizardContext = {
-    repoRoot,
-    productId: product.id,
-    mode,
-    args: {
-      yes: parsed.yes,
-      kill: parsed.kill,
-      allowProd,
-      install: parsed.install,
-      rawArgv: argv,
-    },
-    options,
-    passThroughArgs: parsed.passThroughArgs,
+    ...contexts.get(products[0]!.id)!,
+    supervisor: supervisor.unit({
+      name: 'local-stack',
+      restart: config.localStack?.restart,
+      start: () => config.localStack?.start?.(baseCtx),
+    }),
   };
+  localStackCtx = baseCtx;
 
-  const stackPorts =
-    baseCtx.mode === 'local'
-      ? validatePortPlan(config.localStack?.ports?.(baseCtx))
-      : [];
+  const stackPorts = modeUsesLocalStack(modeSpec)
+    ? validatePortPlan(config.localStack?.ports?.(baseCtx))
+    : [];
   const stackIgnorePorts = new Set<number>(stackPorts.map((p) => p.port));
 
   // IMPORTANT: resolve product port conflicts *before* starting the local stack,
   // otherwise background logs will corrupt interactive prompts.
-  const productPortPlan = validatePortPlan(product.portPlan?.(baseCtx)).filter(
-    (p) => !(baseCtx.mode === 'local' && stackIgnorePorts.has(p.port))
-  );
-  const productConflicts = await collectPortConflicts(productPortPlan);
-  await resolvePortConflictsInteractively({
+  // All products share one plan so every conflict is resolved before anything
+  // launches.
+  const portOwners = new Map<number, string>();
+  const productPortPlan: StartWizardPortPlanEntry[] = [];
+  for (const product of products) {
+    const plan = portPlanFor(product, contexts.get(product.id)!).filter(
+      (p) => !(modeUsesLocalStack(modeSpec) && stackIgnorePorts.has(p.port))
+    );
+    for (const entry of plan) {
+      const owner = portOwners.get(entry.port);
+      if (owner !== undefined) {
+        throw new Error(
+          `Port ${entry.port} is claimed by both "${owner}" and "${product.id}".`
+        );
+      }
+      portOwners.set(entry.port, product.id);
+      productPortPlan.push(entry);
+    }
+  }
+  // `${ports.<id>}` in env specs: each product's first port, after conflicts.
+  const resolveEnvs = (movedPorts: Map<number, number>) => {
+    const productPorts: Record<string, number> = {};
+    for (const entry of productPortPlan) {
+      const owner = portOwners.get(entry.port)!;
+      productPorts[owner] ??= movedPorts.get(entry.port) ?? entry.port;
+    }
+    const envs = new Map<string, ReturnType<typeof resolveEnv>>();
+    for (const product of products) {
+      envs.set(
+        product.id,
+        resolveEnv({
+          repoRoot,
+          specs: [modeSpec.env, product.env],
+          values: {
+            mode,
+            ports: productPorts,
+            options: contexts.get(product.id)!.options,
+            secretOptions: (product.options ?? [])
+              .filter((spec) => spec.kind === 'secret')
+              .map((spec) => spec.name),
+          },
+        })
+      );
+    }
+    const stackEnv = resolveEnv({
+      repoRoot,
+      specs: [modeSpec.env],
+      values: { mode, ports: productPorts, options: baseCtx.options },
+    }).env;
+    return { envs, stackEnv };
+  };
+  // Fail on placeholders that cannot be resolved before any listener is killed.
+  resolveEnvs(new Map());
+
+  const detectedConflicts = await collectPortConflicts(productPortPlan, {
+    // A dry run leaves the registry file alone.
+    previousRuns: readRunRegistry(repoRoot, { prune: !parsed.dryRun }),
+  });
+  const previous = await resolvePreviousRunConflicts({
+    conflicts: detectedConflicts,
+    owners: portOwners,
+    mode,
+    yes: parsed.yes,
+    dryRun: parsed.dryRun,
+    decisions: answers?.conflicts,
+    log,
+  });
+  const reusedProducts = new Set(previous.reused.map((run) => run.productId));
+  const productConflicts = previous.conflicts;
+  // Free ports picked for a product stay held until just before it starts.
+  const portHolds = await resolvePortConflictsInteractively({
     conflicts: productConflicts,
     kill: parsed.kill,
     yes: parsed.yes,
+    claimedPorts: [...portOwners.keys(), ...stackIgnorePorts],
+    dryRun: parsed.dryRun,
+    decisions: answers?.conflicts,
+    log,
   });
 
-  // Apply flexible port changes back into ctx.options when mapped.
+  // Apply flexible port changes back into the owning product's ctx.options.
+  const newPorts = new Map<number, number>();
   for (const conflict of productConflicts) {
+    if (conflict.newPort !== undefined) newPorts.set(conflict.port, conflict.newPort);
     if (Number.isFinite(conflict.newPort) && conflict.optionName) {
-      baseCtx.options[conflict.optionName] = conflict.newPort;
+      const owner = portOwners.get(conflict.port);
+      const ctx = owner !== undefined ? contexts.get(owner) : undefined;
+      if (ctx) ctx.options[conflict.optionName] = conflict.newPort;
     }
   }
 
-  await handleLocalStack({ config, baseCtx, stackPorts });
+  const { envs, stackEnv } = resolveEnvs(newPorts);
+  for (const [productId, resolved] of envs) contexts.get(productId)!.env = resolved.env;
+  baseCtx.env = stackEnv;
 
-  console.log('');
-  console.log('Starting…');
-  console.log(`  repoRoot=${repoRoot}`);
-  console.log(`  product=${product.id}`);
-  console.log(`  mode=${mode}`);
-  console.log('');
+  if (parsed.saveAnswersPath) {
+    writeAnswers(
+      path.resolve(cwd, parsed.saveAnswersPath),
+      {
+        products: requested.map((p) => p.id),
+        mode,
+        options: chosenOptions,
+        conflicts: detectedConflicts.flatMap((conflict) =>
+          conflict.resolution
+            ? [
+                {
+                  port: conflict.port,
+                  resolution: conflict.resolution,
+                  ...(conflict.newPort !== undefined && { newPort: conflict.newPort }),
+                },
+              ]
+            : []
+        ),
+      },
+      log
+    );
+  }
+
+  if (parsed.dryRun) {
+    await releasePortHolds(portHolds);
+    const stack = await handleLocalStack({ config, baseCtx, stackPorts, dryRun: true });
+    printDryRunPlan(
+      {
+        dryRun: true,
+        repoRoot,
+        mode,
+        install,
+        localStack: stack.action,
+        products: products.map((product) => ({
+          id: product.id,
+          action: reusedProducts.has(product.id) ? 'reuse' : 'start',
+          options: maskSecrets(product.options, contexts.get(product.id)!.options),
+          ports: productPortPlan
+            .filter((entry) => portOwners.get(entry.port) === product.id)
+            .map((entry) => newPorts.get(entry.port) ?? entry.port),
+        })),
+        portConflicts: detectedConflicts.map((conflict) =>
+          planConflict(conflict, portOwners.get(conflict.port))
+        ),
+      },
+      { json: parsed.json }
+    );
+    return 0;
+  }
+
+  try {
+    const stack = await handleLocalStack({ config, baseCtx, stackPorts });
+    localStackStarted = stack.started;
 
-  await product.start(baseCtx);
+    log('');
+    log('Starting…');
+    const envNote = (key: keyof CommonCliArgs['fromEnv']) =>
+      parsed.fromEnv[key] ? ` (from ${parsed.fromEnv[key]})` : '';
+    log(`  repoRoot=${repoRoot}`);
+    log(
+      `  product=${products.map((p) => p.id).join(',')}${envNote(
+        parsed.fromEnv.profile ? 'profile' : 'product'
+      )}`
+    );
+    log(`  mode=${mode}${envNote('mode')}`);
+    for (const key of ['configPath', 'yes', 'kill', 'allowProd', 'install'] as const) {
+      if (parsed.fromEnv[key]) log(`  ${key}=${String(parsed[key])}${envNote(key)}`);
+    }
+    for (const line of optionsFromEnv) log(`  ${line}`);
+    for (const [productId, { vars, secrets }] of envs) {
+      for (const [key, value] of Object.entries(vars)) {
+        log(
+          `  ${productId} env: ${key}=${maskEnvValue(key, value, secrets.includes(key))}`
+        );
+      }
+    }
+    log('');
+
+    for (const product of products) {
+      const ctx = contexts.get(product.id)!;
+      if (reusedProducts.has(product.id)) {
+        log(`↺ ${product.id}: reusing the earlier run.`);
+      } else {
+        const ports = productPortPlan
+          .filter((entry) => portOwners.get(entry.port) === product.id)
+          .map((entry) => newPorts.get(entry.port) ?? entry.port);
+        await releasePortHolds(portHolds, ports);
+        await product.start(ctx);
+        recordRun(repoRoot, {
+          productId: product.id,
+          mode,
+          wizardPid: process.pid,
+          pids: supervisor
+            .list()
+            .filter((entry) => entry.unit === product.id)
+            .flatMap((entry) => (entry.pid === undefined ? [] : [entry.pid])),
+          ports,
+          startedAt: new Date().toISOString(),
+        });
+      }
+      // Dependents start only once this product reports ready.
+      await waitForReadiness({
+        name: product.id,
+        checks: resolveReadinessChecks(
+          product.readiness,
+          ctx,
+          `${product.id}.readiness`
+        ),
+        output: ctx.supervisor,
+      });
+    }
+    // Only remember choices that got everything started.
+    writeLastChoices(repoRoot, {
+      products: requested.map((p) => p.id),
+      mode,
+      options: chosenOptions,
+    });
+  } catch (err) {
+    await releasePortHolds(portHolds);
+    // Don't leave earlier products (or the stack) running on a failed start.
+    await supervisor.shutdown({
+      exitCode: 1,
+      reason: supervisor.list().length ? 'Startup failed' : undefined,
+    });
+    throw err;
+  }
+
+  return await supervisor.wait();
 }
 
 async function main(): Promise<void> {
-  await runStartWizard({ argv: process.argv.slice(2), cwd: process.cwd() });
+  const exitCode = await runStartWizard({
+    argv: process.argv.slice(2),
+    cwd: process.cwd(),
+  });
+  if (exitCode !== 0) process.exitCode = exitCode;
 }
 
 // Only auto-run when executed as a CLI entrypoint, not when imported (e.g. tests).
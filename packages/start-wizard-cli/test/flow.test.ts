@@ -1,3 +1,6 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { describe, expect, test, vi } from 'vitest';
 import type {
   StartWizardConfig,
@@ -20,7 +23,7 @@ vi.mock('@timothymwt/start-wizard-core', async () => {
   return {
     ...actual,
     defineConfig: (raw: unknown) => raw as StartWizardConfig,
-    ensureInstall: vi.fn(async () => {}),
+    ensureInstall: vi.fn(async () => false),
     enforceProdGuard: vi.fn(
       async (args: { allowProd?: boolean }) => args.allowProd ?? false
     ),
@@ -41,21 +44,39 @@ vi.mock('@timothymwt/start-wizard-core', async () => {
         const ports = (args.conflicts ?? []).map((c) => c.port);
         resolveCalls.push(ports);
         events.push(`resolve:${ports.join(',')}`);
+        return [];
       }
     ),
     // Avoid real TTY prompting in tests.
     selectPrompt: vi.fn(async () => {
       throw new Error('selectPrompt should not be called in this test');
     }),
+    searchSelectPrompt: vi.fn(async () => {
+      throw new Error('searchSelectPrompt should not be called in this test');
+    }),
     confirmPrompt: vi.fn(async () => true),
     inputPrompt: vi.fn(async () => ''),
-    isPortOpen: vi.fn(async () => false),
+    isPortInUse: vi.fn(async () => false),
   };
 });
 
 // Import after mocks are registered.
 import { runStartWizard } from '../src/cli.js';
 
+// Keep last choices out of the real home directory (set directly, so the
+// tests' `vi.unstubAllEnvs()` keeps it).
+process.env.XDG_STATE_HOME = await fs.mkdtemp(path.join(os.tmpdir(), 'start-wizard-state-'));
+
+/** Write `source` as `start-wizard.config.mjs` in a fresh temp directory. */
+async function writeConfigFixture(
+  source: string
+): Promise<{ tmpDir: string; configPath: string }> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'start-wizard-cli-test-'));
+  const configPath = path.join(tmpDir, 'start-wizard.config.mjs');
+  await fs.writeFile(configPath, source, 'utf8');
+  return { tmpDir, configPath };
+}
+
 describe('start-wizard-cli flow', () => {
   test('resolves product port conflicts before starting local stack (and excludes local stack ports)', async () => {
     events.length = 0;
@@ -157,4 +178,1083 @@ describe('start-wizard-cli flow', () => {
     expect(localStackStartIdx).toBeGreaterThanOrEqual(0);
     expect(localStackStartIdx).toBeGreaterThan(productResolveIdx);
   });
+
+  test('starts a profile in dependency order after resolving one combined port plan', async () => {
+    events.length = 0;
+    collectCalls.length = 0;
+    resolveCalls.length = 0;
+
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        const start = (id) => async (ctx) => {
+          globalThis.__SW_TEST_EVENTS?.push('start:' + id + ':' + JSON.stringify(ctx.options));
+        };
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          profiles: [{ id: 'fullstack', label: 'Full stack', products: ['web'] }],
+          products: [
+            {
+              id: 'web',
+              label: 'Web',
+              dependsOn: ['api'],
+              options: [{ name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 }],
+              portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'web' }],
+              start: start('web'),
+            },
+            {
+              id: 'api',
+              label: 'API',
+              options: [{ name: 'port', flag: 'port', kind: 'number', defaultValue: 4000 }],
+              portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'api' }],
+              start: start('api'),
+            },
+          ],
+        });
+      `
+    );
+
+    try {
+      globalThis.__SW_TEST_EVENTS = events;
+      await runStartWizard({
+        cwd: tmpDir,
+        argv: [
+          '--config',
+          configPath,
+          '--profile',
+          'fullstack',
+          '--mode',
+          'dev',
+          '--web.port',
+          '3100',
+          '--yes',
+        ],
+      });
+    } finally {
+      delete globalThis.__SW_TEST_EVENTS;
+    }
+
+    expect(collectCalls).toEqual([[4000, 3100]]);
+    expect(events).toEqual([
+      'collect:4000,3100',
+      'resolve:4000,3100',
+      'start:api:{"port":4000}',
+      'start:web:{"port":3100}',
+    ]);
+  });
+
+  test('--dry-run --json prints the plan without starting anything', async () => {
+    events.length = 0;
+    collectCalls.length = 0;
+    resolveCalls.length = 0;
+
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'local', label: 'Local', usesLocalStack: true }],
+          localStack: {
+            ports: () => [{ port: 9099, desiredService: 'emulator' }],
+            start: async () => { globalThis.__SW_TEST_EVENTS?.push('localStackStart'); },
+          },
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [{ name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 }],
+            portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'web' }],
+            start: async () => { globalThis.__SW_TEST_EVENTS?.push('start:web'); },
+          }],
+        });
+      `
+    );
+    // A stale run record: a dry run must not prune it from the file.
+    const runsPath = path.join(tmpDir, '.start-wizard', 'runs.json');
+    await fs.mkdir(path.dirname(runsPath));
+    const staleRuns = JSON.stringify([
+      {
+        productId: 'web',
+        mode: 'local',
+        wizardPid: 999_999_999,
+        pids: [],
+        ports: [3000],
+        startedAt: new Date(0).toISOString(),
+      },
+    ]);
+    await fs.writeFile(runsPath, staleRuns, 'utf8');
+
+    const written: string[] = [];
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: string | Uint8Array) => {
+        written.push(String(chunk));
+        return true;
+      });
+    const logToStderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let exitCode: number;
+    try {
+      globalThis.__SW_TEST_EVENTS = events;
+      exitCode = await runStartWizard({
+        cwd: tmpDir,
+        argv: [
+          '--config',
+          configPath,
+          '--product',
+          'web',
+          '--mode',
+          'local',
+          '--dry-run',
+          '--json',
+          '--yes',
+        ],
+      });
+    } finally {
+      delete globalThis.__SW_TEST_EVENTS;
+      write.mockRestore();
+      logToStderr.mockRestore();
+    }
+
+    expect(exitCode).toBe(0);
+    expect(events).toEqual([
+      'collect:3000',
+      'resolve:3000',
+      'collect:9099',
+      'resolve:9099',
+    ]);
+    expect(JSON.parse(written.join(''))).toMatchObject({
+      dryRun: true,
+      mode: 'local',
+      install: false,
+      localStack: 'start',
+      products: [
+        { id: 'web', action: 'start', options: { port: 3000 }, ports: [3000] },
+      ],
+      portConflicts: [{ port: 3000, service: 'test', product: 'web' }],
+    });
+    expect(await fs.readFile(runsPath, 'utf8')).toBe(staleRuns);
+  });
+
+  test('--answers replays recorded answers and --save-answers records them', async () => {
+    const core = await import('@timothymwt/start-wizard-core');
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [
+              { name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 },
+              { name: 'target', flag: 'target', kind: 'select', options: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }], defaultId: 'b' },
+            ],
+            portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'web' }],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    const answersPath = path.join(tmpDir, 'answers.yaml');
+    await fs.writeFile(
+      answersPath,
+      [
+        'products: [web]',
+        'mode: dev',
+        'options:',
+        '  web: { port: 4000, target: a }',
+        'conflicts:',
+        '  - { port: 4000, resolution: kill }',
+        '',
+      ].join('\n'),
+      'utf8'
+    );
+
+    const dryRun = async (...args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      const logToStderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, '--dry-run', '--json', ...args],
+        });
+      } finally {
+        write.mockRestore();
+        logToStderr.mockRestore();
+      }
+      return JSON.parse(written.join(''));
+    };
+
+    expect(
+      await dryRun('--answers', answersPath, '--save-answers', 'saved/answers.json')
+    ).toMatchObject({
+      mode: 'dev',
+      products: [{ id: 'web', options: { port: 4000, target: 'a' } }],
+    });
+    expect(
+      vi.mocked(core.resolvePortConflictsInteractively).mock.lastCall?.[0].decisions
+    ).toEqual([{ port: 4000, resolution: 'kill' }]);
+    expect(
+      JSON.parse(await fs.readFile(path.join(tmpDir, 'saved/answers.json'), 'utf8'))
+    ).toEqual({
+      products: ['web'],
+      mode: 'dev',
+      options: { web: { port: 4000, target: 'a' } },
+      conflicts: [],
+    });
+
+    // Flags take precedence over answers.
+    expect(
+      await dryRun('--answers', answersPath, '--mode', 'prod', '--port', '5000')
+    ).toMatchObject({
+      mode: 'prod',
+      products: [{ id: 'web', options: { port: 5000, target: 'a' } }],
+    });
+
+    // A select id that no longer exists fails instead of falling back.
+    await fs.writeFile(
+      answersPath,
+      (await fs.readFile(answersPath, 'utf8')).replace('target: a', 'target: c'),
+      'utf8'
+    );
+    await expect(dryRun('--answers', answersPath)).rejects.toThrow(
+      'web.target: "c" is not one of a, b'
+    );
+  });
+
+  test('--last reruns the choices of the last run', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [{ name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 }],
+            portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'web' }],
+            start: async (ctx) => {
+              if (ctx.options.port === 3999) throw new Error('web failed to start');
+            },
+          }],
+        });
+      `
+    );
+    const run = (...args: string[]) =>
+      runStartWizard({ cwd: tmpDir, argv: ['--config', configPath, ...args] });
+
+    await expect(run('--last')).rejects.toThrow('No earlier choices to rerun');
+
+    const { readLastChoices } = await import('@timothymwt/start-wizard-core');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      // A run that fails to start is not remembered.
+      await expect(
+        run('--product', 'web', '--mode', 'dev', '--port', '3999', '--yes')
+      ).rejects.toThrow('web failed to start');
+      expect(readLastChoices(tmpDir)).toBeUndefined();
+      await run('--product', 'web', '--mode', 'prod', '--port', '3001', '--yes');
+    } finally {
+      log.mockRestore();
+    }
+    expect(readLastChoices(tmpDir)).toEqual({
+      products: ['web'],
+      mode: 'prod',
+      options: { web: { port: 3001 } },
+    });
+
+    const written: string[] = [];
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: string | Uint8Array) => {
+        written.push(String(chunk));
+        return true;
+      });
+    const logToStderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await run('--last', '--dry-run', '--json');
+    } finally {
+      write.mockRestore();
+      logToStderr.mockRestore();
+    }
+    expect(JSON.parse(written.join(''))).toMatchObject({
+      mode: 'prod',
+      products: [{ id: 'web', options: { port: 3001 } }],
+    });
+  });
+
+  test('status and stop report and stop the processes on declared ports', async () => {
+    const { spawn } = await import('node:child_process');
+
+    const listen = async () => {
+      const child = spawn(
+        process.execPath,
+        [
+          '-e',
+          "const s = require('node:net').createServer(); s.listen(0, '127.0.0.1', () => console.log(s.address().port));",
+        ],
+        { stdio: ['ignore', 'pipe', 'ignore'] }
+      );
+      const childPort = await new Promise<number>((resolve) => {
+        child.stdout!.once('data', (chunk: Buffer) =>
+          resolve(Number(chunk.toString().trim()))
+        );
+      });
+      return { child, childPort };
+    };
+    const { child: server, childPort: port } = await listen();
+    // A shared database the wizard must never stop.
+    const { child: db, childPort: dbPort } = await listen();
+    const bystander = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], {
+      stdio: 'ignore',
+    });
+
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          products: [
+            {
+              id: 'web',
+              label: 'Web',
+              portPlan: () => [
+                { port: ${port}, desiredService: 'web' },
+                { port: ${dbPort}, desiredService: 'db', onConflict: 'abort' },
+              ],
+              start: async () => {},
+            },
+            { id: 'docs', label: 'Docs', start: async () => {} },
+          ],
+        });
+      `
+    );
+
+    const runJson = async (args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        const exitCode = await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, ...args, '--json'],
+        });
+        return { exitCode, output: JSON.parse(written.join('')) };
+      } finally {
+        write.mockRestore();
+      }
+    };
+
+    try {
+      const status = await runJson(['status']);
+      expect(status.output).toMatchObject({
+        mode: 'dev',
+        products: [
+          {
+            id: 'web',
+            ports: [
+              { port, status: 'listening', listeners: [{ pid: server.pid }] },
+              { port: dbPort, status: 'listening', listeners: [{ pid: db.pid }] },
+            ],
+          },
+          { id: 'docs', ports: [] },
+        ],
+      });
+
+      // A recorded pid that now belongs to an unrelated process is left alone.
+      const { recordRun, isPidAlive } = await import('@timothymwt/start-wizard-core');
+      recordRun(tmpDir, {
+        productId: 'web',
+        mode: 'dev',
+        wizardPid: process.pid,
+        pids: [bystander.pid!],
+        ports: [port],
+        startedAt: new Date().toISOString(),
+        pidStartTimes: { [bystander.pid!]: 'an earlier process' },
+      });
+
+      const stop = await runJson(['stop', 'web']);
+      expect(stop).toEqual({
+        exitCode: 0,
+        output: {
+          stopped: [
+            {
+              id: 'web',
+              pids: [server.pid],
+              stillListening: [],
+              undetermined: [],
+              leftRunning: [{ port: dbPort, pids: [db.pid] }],
+            },
+          ],
+          localStack: 'not-stopped',
+        },
+      });
+      expect(isPidAlive(bystander.pid!)).toBe(true);
+      expect(isPidAlive(db.pid!)).toBe(true);
+      expect((await runJson(['status'])).output.products[0].ports[0].status).toBe(
+        'free'
+      );
+    } finally {
+      server.kill('SIGKILL');
+      db.kill('SIGKILL');
+      bystander.kill('SIGKILL');
+    }
+  });
+
+  test('status and stop take product flags after the subcommand', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [{ name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 }],
+            portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'web' }],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+
+    const runJson = async (args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        const exitCode = await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, ...args, '--json'],
+        });
+        return { exitCode, output: JSON.parse(written.join('')) };
+      } finally {
+        write.mockRestore();
+      }
+    };
+
+    // A port nothing listens on, so stop has nothing to signal.
+    const net = await import('node:net');
+    const probe = net.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    const port = String((probe.address() as { port: number }).port);
+    await new Promise((resolve) => probe.close(resolve));
+
+    const status = await runJson(['status', '--port', port]);
+    expect(status.output.products[0].ports).toEqual([
+      expect.objectContaining({ port: Number(port), status: 'free' }),
+    ]);
+    const stop = await runJson(['stop', 'web', '--port', port]);
+    expect(stop.exitCode).toBe(0);
+    expect(stop.output.stopped).toEqual([expect.objectContaining({ id: 'web' })]);
+  });
+
+  test('list --json describes product options and port plans', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [
+              { name: 'port', flag: 'port', kind: 'number', defaultValue: 3000, min: 1024, description: 'Dev port' },
+              { name: 'target', flag: 'target', kind: 'select', options: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }], defaultId: 'b' },
+            ],
+            portPlan: (ctx) => [{ port: ctx.mode === 'prod' ? 8080 : ctx.options.port, desiredService: 'web' }],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+
+    const written: string[] = [];
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: string | Uint8Array) => {
+        written.push(String(chunk));
+        return true;
+      });
+    try {
+      await runStartWizard({
+        cwd: tmpDir,
+        argv: ['--config', configPath, 'list', 'web', '--mode', 'prod', '--json'],
+      });
+    } finally {
+      write.mockRestore();
+    }
+
+    expect(JSON.parse(written.join(''))).toMatchObject({
+      mode: 'prod',
+      products: [
+        {
+          id: 'web',
+          options: [
+            { name: 'port', flag: '--port', kind: 'number', default: 3000, min: 1024, description: 'Dev port' },
+            { name: 'target', flag: '--target', kind: 'select', default: 'b', values: [{ id: 'a' }, { id: 'b' }] },
+          ],
+          ports: [{ port: 8080, service: 'web' }],
+        },
+      ],
+    });
+  });
+
+  test('__complete prints candidates from the config', async () => {
+    const { tmpDir } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [
+            {
+              id: 'web',
+              label: 'Web',
+              options: [
+                { name: 'turbo', flag: 'turbo', kind: 'boolean', defaultValue: true },
+                { name: 'target', flag: 'target', kind: 'select', options: [{ id: 'a', label: 'A' }, { id: 'b', label: 'B' }] },
+              ],
+              start: async () => {},
+            },
+            { id: 'api', label: 'API', start: async () => {} },
+          ],
+        });
+      `
+    );
+
+    const complete = async (...words: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        await runStartWizard({ cwd: tmpDir, argv: ['__complete', ...words] });
+      } finally {
+        write.mockRestore();
+      }
+      return written.join('').split('\n').filter(Boolean);
+    };
+
+    expect(await complete('--product', '')).toEqual(['web', 'api']);
+    expect(await complete('--product', 'web,')).toEqual(['web,web', 'web,api']);
+    expect(await complete('--mode', 'p')).toEqual(['prod']);
+    expect(await complete('--product', 'web', '--tu')).toEqual(['--turbo']);
+    expect(await complete('--product', 'web', '--web.')).toEqual([
+      '--web.turbo',
+      '--web.target',
+    ]);
+    expect(await complete('--product=web', '--target=')).toEqual([
+      '--target=a',
+      '--target=b',
+    ]);
+    expect(await complete('--product', 'web', '--target', '=', '')).toEqual(['a', 'b']);
+    expect(await complete('--t')).toEqual([]);
+    expect(await complete('completion', '')).toEqual(['bash', 'zsh', 'fish']);
+  });
+
+  test('list --json shows defaults from start-wizard.local.json', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [{
+            id: 'mobile',
+            label: 'Mobile',
+            options: [
+              { name: 'port', flag: 'port', kind: 'number', defaultValue: 8081 },
+              { name: 'clear', flag: 'clear', kind: 'boolean', defaultValue: false },
+            ],
+            portPlan: (ctx) => [{ port: ctx.options.port, desiredService: 'expo' }],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    await fs.writeFile(
+      path.join(tmpDir, 'start-wizard.local.json'),
+      JSON.stringify({
+        defaultMode: 'prod',
+        install: false,
+        products: { mobile: { options: { port: 8082 } } },
+      }),
+      'utf8'
+    );
+
+    const written: string[] = [];
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: string | Uint8Array) => {
+        written.push(String(chunk));
+        return true;
+      });
+    try {
+      await runStartWizard({
+        cwd: tmpDir,
+        argv: ['--config', configPath, 'list', '--json'],
+      });
+    } finally {
+      write.mockRestore();
+    }
+
+    expect(JSON.parse(written.join(''))).toMatchObject({
+      mode: 'prod',
+      localConfig: path.join(tmpDir, 'start-wizard.local.json'),
+      defaults: { mode: { id: 'prod', source: 'local' }, install: false },
+      products: [
+        {
+          id: 'mobile',
+          options: [
+            { name: 'port', default: 8082, defaultSource: 'local' },
+            { name: 'clear', default: false, defaultSource: 'config' },
+          ],
+          ports: [{ port: 8082 }],
+        },
+      ],
+    });
+  });
+
+  test('environment variables sit between flags and saved answers', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }, { id: 'prod', label: 'Prod' }],
+          products: [{
+            id: 'api',
+            label: 'API',
+            options: [{ name: 'port', flag: 'port', env: 'API_PORT', kind: 'number', defaultValue: 3000 }],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    const answersPath = path.join(tmpDir, 'answers.json');
+    await fs.writeFile(
+      answersPath,
+      JSON.stringify({ products: ['api'], mode: 'prod', options: { api: { port: 4000 } } }),
+      'utf8'
+    );
+    vi.stubEnv('START_WIZARD_MODE', 'dev');
+    vi.stubEnv('API_PORT', '4100');
+
+    const logged: string[] = [];
+    const log = vi.spyOn(console, 'log').mockImplementation((line?: unknown) => {
+      logged.push(String(line));
+    });
+    const dryRun = async (...args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, '--answers', answersPath, '--dry-run', '--json', ...args],
+        });
+      } finally {
+        write.mockRestore();
+      }
+      return JSON.parse(written.join(''));
+    };
+    try {
+      expect(await dryRun()).toMatchObject({
+        mode: 'dev',
+        products: [{ id: 'api', options: { port: 4100 } }],
+      });
+      expect(await dryRun('--mode', 'prod', '--port', '5000')).toMatchObject({
+        mode: 'prod',
+        products: [{ id: 'api', options: { port: 5000 } }],
+      });
+
+      await runStartWizard({ cwd: tmpDir, argv: ['--config', configPath, '--product', 'api'] });
+      expect(logged).toContain('  mode=dev (from START_WIZARD_MODE)');
+      expect(logged).toContain('  api.port=4100 (from API_PORT)');
+    } finally {
+      log.mockRestore();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('products get the mode and product env, with secrets masked in the summary', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev', env: { files: ['.env.\${mode}'] } }],
+          products: [{
+            id: 'api',
+            label: 'API',
+            options: [
+              { name: 'port', flag: 'port', kind: 'number', defaultValue: 3000 },
+              { name: 'auth', env: 'API_AUTH', kind: 'secret' },
+            ],
+            env: {
+              vars: {
+                API_URL: 'http://localhost:\${options.port}',
+                AUTH_HEADER: 'Bearer \${options.auth}',
+                CURL_ARGS: '-H \${env.AUTH_HEADER}',
+              },
+            },
+            start: async (ctx) => {
+              globalThis.__SW_TEST_EVENTS = [ctx.env.API_URL, ctx.env.API_SECRET, ctx.env.LOG_LEVEL];
+            },
+          }],
+        });
+      `
+    );
+    await fs.writeFile(path.join(tmpDir, '.env.dev'), 'API_SECRET=hunter2\nLOG_LEVEL=debug\n');
+    vi.stubEnv('LOG_LEVEL', 'info');
+    vi.stubEnv('API_AUTH', 's3cr3t');
+
+    const logged: string[] = [];
+    const log = vi.spyOn(console, 'log').mockImplementation((line?: unknown) => {
+      logged.push(String(line));
+    });
+    try {
+      await runStartWizard({
+        cwd: tmpDir,
+        argv: ['--config', configPath, '--product', 'api', '--mode', 'dev', '--port', '3100'],
+      });
+    } finally {
+      log.mockRestore();
+      vi.unstubAllEnvs();
+    }
+
+    // The shell wins over env files; inline vars win over both.
+    expect(globalThis.__SW_TEST_EVENTS).toEqual(['http://localhost:3100', 'hunter2', 'info']);
+    expect(logged).toContain('  api env: API_SECRET=****');
+    expect(logged).toContain('  api env: API_URL=http://localhost:3100');
+    // Built from a secret option, directly or through another var.
+    expect(logged).toContain('  api env: AUTH_HEADER=****');
+    expect(logged).toContain('  api env: CURL_ARGS=****');
+    expect(logged.join('\n')).not.toContain('s3cr3t');
+    expect(logged.join('\n')).not.toContain('LOG_LEVEL');
+    globalThis.__SW_TEST_EVENTS = undefined;
+  });
+
+  test('an unresolvable env placeholder fails before port conflicts are resolved', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          products: [
+            { id: 'api', label: 'API', start: async () => {} },
+            {
+              id: 'web',
+              label: 'Web',
+              portPlan: () => [{ port: 3999, desiredService: 'web' }],
+              env: { vars: { API_URL: 'http://localhost:\${ports.api}' } },
+              start: async () => {},
+            },
+          ],
+        });
+      `
+    );
+    const resolvesBefore = resolveCalls.length;
+
+    // `api` is not started in this run, so it has no port.
+    await expect(
+      runStartWizard({
+        cwd: tmpDir,
+        argv: ['--config', configPath, '--product', 'web', '--mode', 'dev', '--yes'],
+      })
+    ).rejects.toThrow('Cannot resolve ${ports.api}: product "api" has no port in this run.');
+    expect(resolveCalls.length).toBe(resolvesBefore);
+  });
+
+  test('options with when conditions are skipped, rejected or computed per mode', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'local', label: 'Local' }, { id: 'dev', label: 'Dev' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [
+              {
+                name: 'network',
+                flag: 'network',
+                kind: 'select',
+                options: [{ id: 'direct', label: 'Direct' }, { id: 'tunnel', label: 'Tunnel' }],
+              },
+              {
+                name: 'tunnelSubdomain',
+                flag: 'tunnel-subdomain',
+                kind: 'string',
+                when: { option: { network: 'tunnel' } },
+                defaultValue: (ctx) => 'web-' + ctx.mode,
+              },
+              {
+                name: 'emulatorDataDir',
+                flag: 'emulator-data-dir',
+                kind: 'string',
+                when: { mode: ['local'] },
+                defaultValue: '.emulators',
+              },
+            ],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    const dryRun = async (...args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, '--product', 'web', '--dry-run', '--json', ...args],
+        });
+      } finally {
+        write.mockRestore();
+      }
+      return JSON.parse(written.join(''));
+    };
+
+    const dev = await dryRun('--mode', 'dev');
+    expect(dev.products[0].options).toEqual({ network: 'direct' });
+
+    const local = await dryRun('--mode', 'local', '--network', 'tunnel');
+    expect(local.products[0].options).toEqual({
+      network: 'tunnel',
+      tunnelSubdomain: 'web-local',
+      emulatorDataDir: '.emulators',
+    });
+
+    await expect(dryRun('--mode', 'dev', '--emulator-data-dir', 'x')).rejects.toThrow(
+      '--emulator-data-dir only applies when mode local (mode is dev).'
+    );
+    await expect(dryRun('--mode', 'dev', '--tunnel-subdomain', 'x')).rejects.toThrow(
+      '--tunnel-subdomain only applies when network=tunnel.'
+    );
+  });
+
+  test('multiselect, path, secret and port options', async () => {
+    const core = await import('@timothymwt/start-wizard-core');
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          products: [{
+            id: 'mobile',
+            label: 'Mobile',
+            options: [
+              {
+                name: 'platforms',
+                flag: 'platforms',
+                kind: 'multiselect',
+                options: [
+                  { id: 'ios', label: 'iOS' },
+                  { id: 'android', label: 'Android' },
+                  { id: 'web', label: 'Web' },
+                ],
+                defaultIds: ['ios'],
+              },
+              { name: 'dataDir', flag: 'data-dir', kind: 'path', type: 'directory', defaultValue: 'data' },
+              { name: 'token', env: 'MOBILE_TOKEN', kind: 'secret', required: true },
+              { name: 'port', flag: 'port', env: 'MOBILE_PORT', kind: 'port', defaultValue: 8081, flexible: true },
+            ],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    await fs.mkdir(path.join(tmpDir, 'data'));
+    const dryRun = async (...args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, '--product', 'mobile', '--mode', 'dev', '--dry-run', '--json', ...args],
+        });
+      } finally {
+        write.mockRestore();
+      }
+      return JSON.parse(written.join(''));
+    };
+
+    await expect(dryRun()).rejects.toThrow(
+      'Missing required option: mobile.token (set MOBILE_TOKEN)'
+    );
+    vi.stubEnv('MOBILE_TOKEN', 's3cret');
+    try {
+      // The port option joins the port plan; a reassignment updates it.
+      vi.mocked(core.collectPortConflicts).mockImplementationOnce(async (plan) =>
+        plan.map((entry) => ({
+          ...entry,
+          flexible: Boolean(entry.flexible),
+          listeners: [{ pid: 123, command: 'test' }],
+        }))
+      );
+      vi.mocked(core.resolvePortConflictsInteractively).mockImplementationOnce(
+        async ({ conflicts }) => {
+          for (const conflict of conflicts) {
+            conflict.resolution = 'reassign';
+            conflict.newPort = conflict.port + 1;
+          }
+          return [];
+        }
+      );
+      const plan = await dryRun(
+        '--platforms', 'ios,web', '--platforms', 'android', '--save-answers', 'answers.json'
+      );
+      expect(plan.products[0]).toMatchObject({
+        options: {
+          platforms: ['ios', 'web', 'android'],
+          dataDir: 'data',
+          token: '****',
+          port: 8082,
+        },
+        ports: [8082],
+      });
+      expect(
+        JSON.parse(await fs.readFile(path.join(tmpDir, 'answers.json'), 'utf8')).options
+      ).toEqual({ mobile: { platforms: ['ios', 'web', 'android'], dataDir: 'data', port: 8081 } });
+
+      await expect(dryRun('--platforms', 'tvos')).rejects.toThrow(
+        'Invalid value for --platforms: "tvos". "tvos" is not allowed. Allowed: ios, android, web'
+      );
+      await expect(dryRun('--data-dir', 'missing')).rejects.toThrow(
+        'Invalid value for --data-dir: "missing". Does not exist.'
+      );
+      await expect(dryRun('--port', '70000')).rejects.toThrow(
+        'Invalid port for --port: "70000"'
+      );
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('checks option values with patterns, validators, transforms and computed choices', async () => {
+    const { tmpDir, configPath } = await writeConfigFixture(
+      `
+        import fs from 'node:fs';
+        import path from 'node:path';
+        import { defineConfig } from '@timothymwt/start-wizard-core';
+        export default defineConfig({
+          modes: [{ id: 'dev', label: 'Dev' }],
+          products: [{
+            id: 'web',
+            label: 'Web',
+            options: [
+              {
+                name: 'name',
+                flag: 'name',
+                kind: 'string',
+                pattern: '^[a-z-]+$',
+                transform: (value) => value.trim().toLowerCase(),
+                defaultValue: 'web',
+              },
+              {
+                name: 'replicas',
+                flag: 'replicas',
+                env: 'WEB_REPLICAS',
+                kind: 'number',
+                min: 1,
+                validate: (value) => (value % 2 ? null : 'Use an odd number.'),
+                defaultValue: 1,
+              },
+              {
+                name: 'profile',
+                flag: 'profile-data',
+                kind: 'select',
+                choicesFrom: ({ repoRoot }) =>
+                  fs
+                    .readdirSync(path.join(repoRoot, 'profiles'))
+                    .sort()
+                    .map((id) => ({ id, label: id })),
+                defaultId: 'seed',
+              },
+            ],
+            start: async () => {},
+          }],
+        });
+      `
+    );
+    await fs.mkdir(path.join(tmpDir, 'profiles/seed'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'profiles/empty'));
+    const dryRun = async (...args: string[]) => {
+      const written: string[] = [];
+      const write = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: string | Uint8Array) => {
+          written.push(String(chunk));
+          return true;
+        });
+      try {
+        await runStartWizard({
+          cwd: tmpDir,
+          argv: ['--config', configPath, '--product', 'web', '--mode', 'dev', '--dry-run', '--json', ...args],
+        });
+      } finally {
+        write.mockRestore();
+      }
+      return JSON.parse(written.join(''));
+    };
+
+    expect((await dryRun()).products[0].options).toEqual({
+      name: 'web',
+      replicas: 1,
+      profile: 'seed',
+    });
+    expect(
+      (await dryRun('--name', ' My-App ', '--replicas', '3', '--profile-data', 'empty')).products[0]
+        .options
+    ).toEqual({ name: 'my-app', replicas: 3, profile: 'empty' });
+
+    await expect(dryRun('--name', 'my app')).rejects.toThrow(
+      'Invalid value for --name: "my app". Must match /^[a-z-]+$/.'
+    );
+    await expect(dryRun('--replicas', '30x1')).rejects.toThrow(
+      'Invalid number for --replicas: "30x1"'
+    );
+    await expect(dryRun('--replicas', '2')).rejects.toThrow(
+      'Invalid value for --replicas: 2. Use an odd number.'
+    );
+    await expect(dryRun('--replicas', '-1')).rejects.toThrow(
+      'Invalid value for --replicas: -1. Must be >= 1.'
+    );
+    await expect(dryRun('--profile-data', 'other')).rejects.toThrow(
+      'Invalid value for --profile-data: "other". Allowed: empty, seed'
+    );
+    vi.stubEnv('WEB_REPLICAS', '4');
+    try {
+      await expect(dryRun()).rejects.toThrow('Invalid value for WEB_REPLICAS: 4. Use an odd number.');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
 });
@@ -1,14 +1,85 @@
 import type { StartWizardRunMode } from './startWizardConfig.js';
 
+/** Subcommands; without one the CLI runs the start wizard. */
+export const START_WIZARD_COMMANDS = ['status', 'stop', 'list', 'completion'] as const;
+
+export type StartWizardCommand = (typeof START_WIZARD_COMMANDS)[number];
+
+/**
+ * Flags `parseCommonCliArgs` handles, without leading dashes. Product options
+ * cannot use them: the wizard would never pass them on.
+ */
+export const START_WIZARD_FLAGS = [
+  'product',
+  'profile',
+  'mode',
+  'install',
+  'no-install',
+  'kill',
+  'yes',
+  'allow-prod',
+  'dry-run',
+  'json',
+  'last',
+  'all',
+  'config',
+  'answers',
+  'save-answers',
+  'help',
+] as const;
+
+/**
+ * Environment variables read by `parseCommonCliArgs`, by the arg they set.
+ * Flags take precedence over them.
+ */
+export const START_WIZARD_ENV = {
+  product: 'START_WIZARD_PRODUCT',
+  profile: 'START_WIZARD_PROFILE',
+  mode: 'START_WIZARD_MODE',
+  configPath: 'START_WIZARD_CONFIG',
+  yes: 'START_WIZARD_YES',
+  kill: 'START_WIZARD_KILL',
+  allowProd: 'START_WIZARD_ALLOW_PROD',
+  install: 'START_WIZARD_INSTALL',
+} as const;
+
+type EnvArg = keyof typeof START_WIZARD_ENV;
+
 export type CommonCliArgs = {
+  /** Subcommand: a bare word before any product flag (e.g. `start-wizard status`). */
+  command?: StartWizardCommand;
+  /**
+   * Bare words after the subcommand (e.g. the products for `stop`), except
+   * those taken as the value of a product flag.
+   */
+  commandArgs: string[];
+  /** `--all` (e.g. `stop --all`). */
+  all: boolean;
   help: boolean;
   yes: boolean;
   kill: boolean;
   allowProd: boolean;
   install?: boolean;
+  /** Resolve everything and print the plan without starting, killing or installing. */
+  dryRun: boolean;
+  /** Print machine-readable output (the dry-run plan) as JSON on stdout. */
+  json: boolean;
+  /**
+   * Product id, or a comma-separated list of product ids.
+   */
   product?: string;
+  /** Profile id from `config.profiles`. */
+  profile?: string;
   mode?: StartWizardRunMode;
   configPath?: string;
+  /** Args that were set from the environment, with the variable they came from. */
+  fromEnv: Partial<Record<EnvArg, string>>;
+  /** `--answers <file>`: replay answers recorded with `--save-answers`. */
+  answersPath?: string;
+  /** `--save-answers <file>`: record the answers given in this run. */
+  saveAnswersPath?: string;
+  /** `--last`: rerun with the choices of the last run, without prompting. */
+  last: boolean;
   /**
    * Args before `--` that were not parsed as common flags.
    * Product-specific parsing happens later (in CLI) based on config.
@@ -20,13 +91,62 @@ export type CommonCliArgs = {
   passThroughArgs: string[];
 };
 
+/**
+ * Parse a boolean environment variable: `1`/`true`/`yes` or `0`/`false`/`no`
+ * (any case). Throws naming the variable otherwise.
+ */
+export function parseBooleanEnv(name: string, value: string): boolean {
+  const v = value.trim().toLowerCase();
+  if (v === '1' || v === 'true' || v === 'yes') return true;
+  if (v === '0' || v === 'false' || v === 'no') return false;
+  throw new Error(`Invalid boolean in ${name}: "${value}" (expected true or false)`);
+}
+
+/** Fill args not given as flags from `START_WIZARD_*` variables. */
+function applyEnv(args: CommonCliArgs, env: NodeJS.ProcessEnv): void {
+  const read = (key: EnvArg) => {
+    const value = env[START_WIZARD_ENV[key]];
+    return value === undefined || value === '' ? undefined : value;
+  };
+  const take = <K extends EnvArg>(key: K, value: CommonCliArgs[K]) => {
+    args[key] = value;
+    args.fromEnv[key] = START_WIZARD_ENV[key];
+  };
+
+  // --product and --profile exclude each other, so a flag for either wins.
+  const selectKeys = args.product === undefined && args.profile === undefined
+    ? (['product', 'profile'] as const)
+    : [];
+  for (const key of [...selectKeys, 'mode', 'configPath'] as const) {
+    const value = read(key);
+    if (args[key] === undefined && value !== undefined) take(key, value);
+  }
+  for (const key of ['yes', 'kill', 'allowProd'] as const) {
+    const value = read(key);
+    if (!args[key] && value !== undefined) {
+      if (parseBooleanEnv(START_WIZARD_ENV[key], value)) take(key, true);
+    }
+  }
+  const install = read('install');
+  if (args.install === undefined && install !== undefined) {
+    take('install', parseBooleanEnv(START_WIZARD_ENV.install, install));
+  }
+}
+
 function takeValue(argv: string[], i: number): { value: string; nextIndex: number } {
   const value = argv[i + 1];
   if (!value) throw new Error(`Missing value for ${argv[i]}`);
   return { value, nextIndex: i + 1 };
 }
 
-export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
+/**
+ * Parse the common flags. Args not given as flags are read from `env`
+ * (see {@link START_WIZARD_ENV}).
+ */
+export function parseCommonCliArgs(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): CommonCliArgs {
   const beforeSeparator: string[] = [];
   const passThroughArgs: string[] = [];
   const sepIndex = argv.indexOf('--');
@@ -38,10 +158,16 @@ export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
   }
 
   const args: CommonCliArgs = {
+    commandArgs: [],
+    all: false,
     help: false,
     yes: false,
     kill: false,
     allowProd: false,
+    dryRun: false,
+    json: false,
+    fromEnv: {},
+    last: false,
     remaining: [],
     passThroughArgs,
   };
@@ -49,7 +175,26 @@ export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
   for (let i = 0; i < beforeSeparator.length; i += 1) {
     const token = beforeSeparator[i]!;
     if (!token.startsWith('-')) {
-      args.remaining.push(token);
+      // A bare word right after an unknown `--flag` is that flag's value
+      // (`status --port 3001`), not a command argument.
+      const prev = i > 0 ? beforeSeparator[i - 1]! : undefined;
+      const afterUnknownFlag =
+        prev !== undefined &&
+        prev.startsWith('-') &&
+        !prev.includes('=') &&
+        args.remaining[args.remaining.length - 1] === prev;
+      if (args.command && !afterUnknownFlag) {
+        args.commandArgs.push(token);
+      } else if (
+        // Only a bare word before any product flag can be a subcommand: an
+        // unknown flag may take it as its value (`--target list`).
+        !args.remaining.length &&
+        (START_WIZARD_COMMANDS as readonly string[]).includes(token)
+      ) {
+        args.command = token as StartWizardCommand;
+      } else {
+        args.remaining.push(token);
+      }
       continue;
     }
     if (token === '-h' || token === '--help') {
@@ -76,6 +221,22 @@ export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
       args.install = false;
       continue;
     }
+    if (token === '--all') {
+      args.all = true;
+      continue;
+    }
+    if (token === '--dry-run') {
+      args.dryRun = true;
+      continue;
+    }
+    if (token === '--json') {
+      args.json = true;
+      continue;
+    }
+    if (token === '--last') {
+      args.last = true;
+      continue;
+    }
     if (token.startsWith('--product=')) {
       args.product = token.split('=')[1];
       continue;
@@ -86,13 +247,23 @@ export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
       i = nextIndex;
       continue;
     }
+    if (token.startsWith('--profile=')) {
+      args.profile = token.split('=')[1];
+      continue;
+    }
+    if (token === '--profile') {
+      const { value, nextIndex } = takeValue(beforeSeparator, i);
+      args.profile = value;
+      i = nextIndex;
+      continue;
+    }
     if (token.startsWith('--mode=')) {
-      args.mode = token.split('=')[1] as StartWizardRunMode;
+      args.mode = token.split('=')[1];
       continue;
     }
     if (token === '--mode') {
       const { value, nextIndex } = takeValue(beforeSeparator, i);
-      args.mode = value as StartWizardRunMode;
+      args.mode = value;
       i = nextIndex;
       continue;
     }
@@ -106,11 +277,32 @@ export function parseCommonCliArgs(argv: string[]): CommonCliArgs {
       i = nextIndex;
       continue;
     }
+    if (token.startsWith('--answers=')) {
+      args.answersPath = token.split('=')[1];
+      continue;
+    }
+    if (token === '--answers') {
+      const { value, nextIndex } = takeValue(beforeSeparator, i);
+      args.answersPath = value;
+      i = nextIndex;
+      continue;
+    }
+    if (token.startsWith('--save-answers=')) {
+      args.saveAnswersPath = token.split('=')[1];
+      continue;
+    }
+    if (token === '--save-answers') {
+      const { value, nextIndex } = takeValue(beforeSeparator, i);
+      args.saveAnswersPath = value;
+      i = nextIndex;
+      continue;
+    }
 
     // Keep unknown tokens for product-specific parsing.
     args.remaining.push(token);
   }
 
+  applyEnv(args, env);
   return args;
 }
 
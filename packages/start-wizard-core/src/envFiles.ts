@@ -0,0 +1,171 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Environment for a mode or product: env files plus inline variables.
+ *
+ * ```js
+ * env: {
+ *   files: ['.env', '.env.${mode}'],
+ *   vars: { API_URL: 'http://localhost:${ports.api}' },
+ * }
+ * ```
+ *
+ * `${mode}`, `${ports.<productId>}` (the product's first port after conflict
+ * resolution), `${options.<name>}` and `${env.<NAME>}` are interpolated in
+ * file paths and `vars`. Use plain quotes, not template literals.
+ */
+export type StartWizardEnvSpec = {
+  /**
+   * Files relative to the repo root, loaded in order (later files win).
+   * Missing files are skipped. Variables already set in the shell win over
+   * them, as with dotenv.
+   */
+  files?: string[];
+  /** Inline variables; they win over env files and the shell. */
+  vars?: Record<string, string>;
+};
+
+/** Values available to `${...}` placeholders. */
+export type StartWizardEnvValues = {
+  mode: string;
+  ports: Record<string, number>;
+  options: Record<string, unknown>;
+  /** Options whose values are secret; vars built from them are masked. */
+  secretOptions?: string[];
+};
+
+const SECRET_KEY = /SECRET|TOKEN|PASSW(?:OR)?D|PRIVATE|CREDENTIAL|(?:^|_)KEY(?:$|_)/i;
+
+/**
+ * Parse dotenv syntax: `KEY=value` lines, optional `export`, `#` comments,
+ * single quotes taken literally, double quotes with `\n` escapes.
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const key = match[1]!;
+    const rest = match[2]!;
+    const quote = rest[0];
+    if ((quote === '"' || quote === "'") && rest.indexOf(quote, 1) > 0) {
+      const value = rest.slice(1, rest.indexOf(quote, 1));
+      vars[key] = quote === '"' ? value.replace(/\\n/g, '\n') : value;
+    } else {
+      // Unquoted: strip a trailing ` # comment`.
+      vars[key] = rest.replace(/\s+#.*$/, '').trim();
+    }
+  }
+  return vars;
+}
+
+const PLACEHOLDER = /\$\{([^}]+)\}/g;
+
+type EnvPlaceholder = { placeholder: string; scope: string; name?: string };
+
+function parsePlaceholder(placeholder: string, expr: string): EnvPlaceholder {
+  const [scope, name] = expr.trim().split(/\.(.*)/s) as [string, string | undefined];
+  return { placeholder, scope, name };
+}
+
+/**
+ * The `${...}` placeholders in `spec`'s file paths and vars, checked against
+ * the known scopes (but not against the config's products or options).
+ */
+export function listEnvPlaceholders(spec: StartWizardEnvSpec): EnvPlaceholder[] {
+  const templates = [...(spec.files ?? []), ...Object.values(spec.vars ?? {})];
+  return templates.flatMap((template) =>
+    [...template.matchAll(PLACEHOLDER)].map(([placeholder, expr]) => {
+      const parsed = parsePlaceholder(placeholder, expr!);
+      const { scope, name } = parsed;
+      const known =
+        scope === 'mode' ? name === undefined : ['ports', 'options', 'env'].includes(scope) && !!name;
+      if (!known) throw new Error(`Unknown placeholder ${placeholder}.`);
+      return parsed;
+    })
+  );
+}
+
+/** Replace `${mode}`, `${ports.x}`, `${options.x}` and `${env.X}` in `template`. */
+export function interpolateEnv(
+  template: string,
+  values: StartWizardEnvValues,
+  env: NodeJS.ProcessEnv
+): string {
+  return template.replace(PLACEHOLDER, (placeholder, expr: string) => {
+    const { scope, name } = parsePlaceholder(placeholder, expr);
+    let value: unknown;
+    if (scope === 'mode' && name === undefined) value = values.mode;
+    else if (scope === 'ports' && name) value = values.ports[name];
+    else if (scope === 'options' && name) value = values.options[name];
+    else if (scope === 'env' && name) value = env[name];
+    if (value === undefined) {
+      throw new Error(
+        scope === 'ports' && name
+          ? `Cannot resolve ${placeholder}: product "${name}" has no port in this run.`
+          : `Cannot resolve ${placeholder}.`
+      );
+    }
+    return String(value);
+  });
+}
+
+/**
+ * Build a child-process environment from `specs` (e.g. the mode's, then the
+ * product's). Precedence, lowest first: env files, `baseEnv` (the shell),
+ * inline vars. `vars` holds only what the specs set, for summaries; `secrets`
+ * names the vars built from `values.secretOptions`.
+ */
+export function resolveEnv({
+  repoRoot,
+  specs,
+  values,
+  baseEnv = process.env,
+}: {
+  repoRoot: string;
+  specs: Array<StartWizardEnvSpec | undefined>;
+  values: StartWizardEnvValues;
+  baseEnv?: NodeJS.ProcessEnv;
+}): { env: NodeJS.ProcessEnv; vars: Record<string, string>; secrets: string[] } {
+  const fromFiles: Record<string, string> = {};
+  for (const spec of specs) {
+    for (const file of spec?.files ?? []) {
+      const filePath = path.resolve(repoRoot, interpolateEnv(file, values, baseEnv));
+      if (!fs.existsSync(filePath)) continue;
+      Object.assign(fromFiles, parseEnvFile(fs.readFileSync(filePath, 'utf8')));
+    }
+  }
+  const env: NodeJS.ProcessEnv = { ...fromFiles, ...baseEnv };
+  const vars: Record<string, string> = Object.fromEntries(
+    Object.keys(fromFiles)
+      .filter((key) => baseEnv[key] === undefined)
+      .map((key) => [key, fromFiles[key]!])
+  );
+  const secrets = new Set<string>();
+  for (const spec of specs) {
+    for (const [key, template] of Object.entries(spec?.vars ?? {})) {
+      // Later vars may refer to earlier ones through `${env.NAME}`.
+      env[key] = vars[key] = interpolateEnv(template, values, env);
+      const secret = [...template.matchAll(PLACEHOLDER)].some(([placeholder, expr]) => {
+        const { scope, name } = parsePlaceholder(placeholder, expr!);
+        return scope === 'options'
+          ? values.secretOptions?.includes(name!)
+          : scope === 'env' && secrets.has(name!);
+      });
+      if (secret) secrets.add(key);
+      else secrets.delete(key);
+    }
+  }
+  return { env, vars, secrets: [...secrets] };
+}
+
+/**
+ * `value`, or `****` when it is `secret` (see `resolveEnv`) or `key` looks
+ * like it holds a secret.
+ */
+export function maskEnvValue(key: string, value: string, secret = false): string {
+  return (secret || SECRET_KEY.test(key)) && value ? '****' : value;
+}
@@ -0,0 +1,84 @@
+import net from 'node:net';
+
+import type { StartWizardPortPlanEntry } from './startWizardConfig.js';
+
+/** How far `flexible: 'auto'` searches past the desired port. */
+const AUTO_RANGE_SIZE = 100;
+
+/**
+ * A port bound by this process so nothing else can take it between being
+ * chosen and the product starting. Release it right before the product binds.
+ */
+export type PortHold = {
+  port: number;
+  release: () => Promise<void>;
+};
+
+function listen(port: number, host: string): Promise<net.Server | null> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.unref();
+    server.once('error', () => resolve(null));
+    server.listen({ port, host, exclusive: true }, () => resolve(server));
+  });
+}
+
+/**
+ * Bind `port` to prove it is free and keep it bound until released. Without
+ * `host` the port is bound on `::` (dual-stack), falling back to `0.0.0.0`
+ * when IPv6 is unavailable, so a listener on any address makes it unavailable.
+ * Resolves null if the port cannot be bound.
+ */
+export async function holdPort({
+  port,
+  host,
+}: {
+  port: number;
+  host?: string;
+}): Promise<PortHold | null> {
+  let server = await listen(port, host ?? '::');
+  if (!server && !host) server = await listen(port, '0.0.0.0');
+  if (!server) return null;
+  const bound = server;
+  return {
+    port,
+    release: () => new Promise<void>((resolve) => bound.close(() => resolve())),
+  };
+}
+
+/**
+ * Hold the first free port in `range` (inclusive), skipping `exclude`.
+ * Resolves null when every port in the range is taken.
+ */
+export async function holdFreePort({
+  range: [from, to],
+  host,
+  exclude = new Set(),
+}: {
+  range: readonly [number, number];
+  host?: string;
+  exclude?: ReadonlySet<number>;
+}): Promise<PortHold | null> {
+  for (let port = from; port <= to; port += 1) {
+    if (exclude.has(port)) continue;
+    const hold = await holdPort({ port, host });
+    if (hold) return hold;
+  }
+  return null;
+}
+
+/**
+ * The range a flexible port plan entry may move within, or undefined when the
+ * entry is fixed or only allows choosing a port by hand (`flexible: true`).
+ * `'auto'` searches the {@link AUTO_RANGE_SIZE} ports after the desired one.
+ */
+export function flexiblePortRange(
+  entry: Pick<StartWizardPortPlanEntry, 'port' | 'flexible'>
+): [number, number] | undefined {
+  const { flexible } = entry;
+  if (flexible === 'auto') {
+    return [entry.port + 1, Math.min(entry.port + AUTO_RANGE_SIZE, 65_535)];
+  }
+  if (flexible && typeof flexible === 'object') return [...flexible.range];
+  return undefined;
+}
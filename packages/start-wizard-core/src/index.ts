@@ -1,40 +1,161 @@
 export const START_WIZARD_CORE_VERSION = '0.0.0';
 
-export { defineConfig } from './startWizardConfig.js';
+export {
+  START_WIZARD_CONFLICT_POLICIES,
+  defineConfig,
+  isGuardedMode,
+  isPlainObject,
+  modeUsesLocalStack,
+  optionPattern,
+} from './startWizardConfig.js';
 export type {
   StartWizardConfig,
+  StartWizardConflictPolicy,
   StartWizardContext,
   StartWizardLocalStack,
   StartWizardMode,
   StartWizardModeSpec,
+  StartWizardOptionChecks,
+  StartWizardOptionChoice,
+  StartWizardOptionChoicesFrom,
+  StartWizardOptionCondition,
+  StartWizardOptionContext,
+  StartWizardOptionDefault,
   StartWizardOptionSpec,
   StartWizardPortPlanEntry,
   StartWizardProduct,
   StartWizardProductOptionValues,
+  StartWizardProfile,
+  StartWizardResolvedOptionSpec,
   StartWizardRunMode,
 } from './startWizardConfig.js';
+export {
+  describeOptionCondition,
+  isModeOnlyCondition,
+  isOptionActive,
+  resolveOptionSpec,
+} from './optionConditions.js';
 
 export {
+  completePath,
   confirmPrompt,
+  fuzzyMatchScore,
   inputPrompt,
+  multiSelectPrompt,
+  pathPrompt,
+  portPrompt,
+  searchSelectPrompt,
+  secretPrompt,
   selectPrompt,
+  type SearchSelectPromptOption,
   type SelectPromptOption,
 } from './ttyPrompts.js';
 export {
   describePid,
   formatPortConflicts,
   getListeningPidsOnPort,
+  isPortInUse,
   isPortOpen,
+  isValidPort,
   killPid,
+  killPidGracefully,
   waitForPortOpen,
+  waitForPortRelease,
 } from './ports.js';
-export { parseCommonCliArgs, type CommonCliArgs } from './commonCliArgs.js';
+export {
+  flexiblePortRange,
+  holdFreePort,
+  holdPort,
+  type PortHold,
+} from './freePorts.js';
+export {
+  bindAddressesOverlap,
+  defaultPortListenerBackends,
+  lookupPortListeners,
+  lsofListenerBackend,
+  netstatListenerBackend,
+  procfsListenerBackend,
+  resolveBindHost,
+  ssListenerBackend,
+  type ListeningSocket,
+  type PortListenerBackend,
+  type PortListenerLookup,
+} from './portListeners.js';
+export {
+  START_WIZARD_COMMANDS,
+  START_WIZARD_ENV,
+  START_WIZARD_FLAGS,
+  parseBooleanEnv,
+  parseCommonCliArgs,
+  type CommonCliArgs,
+  type StartWizardCommand,
+} from './commonCliArgs.js';
 export {
   collectPortConflicts,
   resolvePortConflictsInteractively,
+  resolvePreviousRunConflicts,
   type PortConflict,
+  type PortConflictResolution,
+  type PortConflictDecision,
 } from './portConflicts.js';
+export {
+  START_WIZARD_STATE_DIR,
+  ensureStateDir,
+  findOwningRun,
+  forgetRuns,
+  isRecordedProcess,
+  isRunAlive,
+  readRunRegistry,
+  recordRun,
+  type StartWizardRunRecord,
+} from './runRegistry.js';
+export {
+  START_WIZARD_LOCAL_CONFIG_FILENAMES,
+  applyLocalConfig,
+  defineLocalConfig,
+  type StartWizardLocalConfig,
+} from './localConfig.js';
+export {
+  readLastChoices,
+  writeLastChoices,
+  type StartWizardLastChoices,
+} from './lastChoices.js';
 export { enforceProdGuard } from './prodGuard.js';
+export { findDependencyCycle, resolveStartOrder } from './productGraph.js';
+export {
+  isPidAlive,
+  listDescendantPids,
+  processStartTime,
+  signalProcessTree,
+  terminateProcess,
+  type TerminateProcessOptions,
+} from './processTree.js';
+export {
+  createSupervisor,
+  systemClock,
+  systemProcessApi,
+  type StartWizardRestartPolicy,
+  type StartWizardSupervisor,
+  type SupervisedProcess,
+  type SupervisorClock,
+  type SupervisorProcessApi,
+} from './supervisor.js';
+export {
+  describeReadinessCheck,
+  resolveReadinessChecks,
+  waitForReadiness,
+  type ReadinessOutputSource,
+  type StartWizardReadinessCheck,
+  type StartWizardReadinessSpec,
+} from './readiness.js';
+export {
+  interpolateEnv,
+  maskEnvValue,
+  parseEnvFile,
+  resolveEnv,
+  type StartWizardEnvSpec,
+  type StartWizardEnvValues,
+} from './envFiles.js';
 export { ensureInstall } from './install.js';
 export { runCommandOrThrow } from './runner.js';
 
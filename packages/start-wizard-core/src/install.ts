@@ -14,20 +14,24 @@ function hasNodeModules(repoRoot: string): boolean {
  * - If `node_modules` exists and `installChoice` is undefined, do nothing.
  * - If `installChoice === true`, run `npm ci` immediately.
  * - Otherwise, prompt (or auto-accept in `--yes` mode).
+ *
+ * Resolves true if `npm ci` ran (with `dryRun`: would have run).
  */
 export async function ensureInstall({
   repoRoot,
   installChoice,
   yes,
+  dryRun = false,
 }: {
   repoRoot: string;
   installChoice?: boolean;
   yes: boolean;
-}): Promise<void> {
-  if (installChoice === false) return;
+  dryRun?: boolean;
+}): Promise<boolean> {
+  if (installChoice === false) return false;
 
   const hasDeps = hasNodeModules(repoRoot);
-  if (hasDeps && installChoice !== true) return;
+  if (hasDeps && installChoice !== true) return false;
 
   const shouldInstall =
     installChoice === true ||
@@ -38,10 +42,12 @@ export async function ensureInstall({
           defaultValue: true,
         }));
 
-  if (!shouldInstall) return;
+  if (!shouldInstall) return false;
+  if (dryRun) return true;
 
   console.log('\nRunning npm ci...\n');
   runCommandOrThrow('npm', ['ci'], { cwd: repoRoot });
+  return true;
 }
 
 
@@ -0,0 +1,67 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * The choices of the last wizard run in a repo, kept per user under
+ * `$XDG_STATE_HOME/start-wizard/` (`~/.local/state/start-wizard/` when unset)
+ * so prompts can default to them.
+ */
+export type StartWizardLastChoices = {
+  /** Requested products, before `dependsOn` expansion. */
+  products: string[];
+  mode: string;
+  /** Option values by product id. */
+  options: Record<string, Record<string, unknown>>;
+};
+
+function stateDir(): string {
+  const xdg = process.env.XDG_STATE_HOME;
+  // The spec says to ignore relative paths.
+  const base = xdg && path.isAbsolute(xdg) ? xdg : path.join(os.homedir(), '.local', 'state');
+  return path.join(base, 'start-wizard');
+}
+
+/** One file per checkout, keyed by a hash of its resolved root. */
+function lastChoicesPath(repoRoot: string): string {
+  let resolved = path.resolve(repoRoot);
+  try {
+    resolved = fs.realpathSync(resolved);
+  } catch {
+    // Not created yet: use the path as given.
+  }
+  const key = crypto.createHash('sha256').update(resolved).digest('hex').slice(0, 16);
+  return path.join(stateDir(), `last-choices-${key}.json`);
+}
+
+function isLastChoices(value: unknown): value is StartWizardLastChoices {
+  const c = value as StartWizardLastChoices;
+  return (
+    Boolean(c) &&
+    Array.isArray(c.products) &&
+    c.products.every((id) => typeof id === 'string') &&
+    typeof c.mode === 'string' &&
+    Boolean(c.options) &&
+    typeof c.options === 'object'
+  );
+}
+
+/** The last recorded choices for `repoRoot`, if any. */
+export function readLastChoices(repoRoot: string): StartWizardLastChoices | undefined {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(lastChoicesPath(repoRoot), 'utf8'));
+    return isLastChoices(parsed) ? parsed : undefined;
+  } catch {
+    // Missing or corrupt file: nothing to remember.
+    return undefined;
+  }
+}
+
+export function writeLastChoices(repoRoot: string, choices: StartWizardLastChoices): void {
+  const file = lastChoicesPath(repoRoot);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify(choices, null, 2)}\n`);
+  fs.renameSync(tmp, file);
+}
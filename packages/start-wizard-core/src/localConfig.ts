@@ -0,0 +1,197 @@
+import { isValidPort } from './ports.js';
+import {
+  assert,
+  defineConfig,
+  isPlainObject,
+  type StartWizardConfig,
+  type StartWizardOptionSpec,
+  type StartWizardProduct,
+} from './startWizardConfig.js';
+
+/**
+ * Local override files looked up next to the config, in this order. They hold
+ * one developer's preferences and belong in `.gitignore`.
+ */
+export const START_WIZARD_LOCAL_CONFIG_FILENAMES = [
+  'start-wizard.local.mjs',
+  'start-wizard.local.json',
+] as const;
+
+/**
+ * Per-developer overrides merged over the shared config by
+ * {@link applyLocalConfig}.
+ *
+ * ```js
+ * // start-wizard.local.mjs
+ * export default {
+ *   defaultMode: 'dev',
+ *   install: false,
+ *   products: {
+ *     mobile: { options: { port: 8082 } },
+ *     api: { ports: { Postgres: 5433 } },
+ *   },
+ * };
+ * ```
+ */
+export type StartWizardLocalConfig = {
+  /** Replaces `config.defaultProduct`. */
+  defaultProduct?: string;
+  /** Replaces the mode marked `default: true`. */
+  defaultMode?: string;
+  /** Behave as if `--yes` were passed. */
+  yes?: boolean;
+  /** Behave as if `--install` (true) or `--no-install` (false) were passed. */
+  install?: boolean;
+  /**
+   * Per product id:
+   * - `options`: option defaults by option name: `defaultValue`, or
+   *   `defaultId`/`defaultIds` for select and multiselect options. Secrets
+   *   cannot be set here.
+   * - `ports`: port numbers by the `desiredService` of a `portPlan` entry.
+   *   Entries whose port comes from an option (`optionName`) are moved
+   *   through that option instead.
+   */
+  products?: Record<
+    string,
+    { options?: Record<string, unknown>; ports?: Record<string, number> }
+  >;
+};
+
+/** Validate the shape of a local override file's contents. */
+export function defineLocalConfig(local: StartWizardLocalConfig): StartWizardLocalConfig {
+  assert(isPlainObject(local), 'Local config must be an object.');
+  for (const key of ['defaultProduct', 'defaultMode'] as const) {
+    if (local[key] !== undefined) {
+      assert(typeof local[key] === 'string', `${key} must be a string.`);
+    }
+  }
+  for (const key of ['yes', 'install'] as const) {
+    if (local[key] !== undefined) {
+      assert(typeof local[key] === 'boolean', `${key} must be a boolean.`);
+    }
+  }
+  if (local.products !== undefined) {
+    assert(isPlainObject(local.products), 'products must map product ids to overrides.');
+    for (const [id, product] of Object.entries(local.products)) {
+      assert(isPlainObject(product), `products.${id} must be an object.`);
+      if (product.options !== undefined) {
+        assert(isPlainObject(product.options), `products.${id}.options must be an object.`);
+      }
+      if (product.ports !== undefined) {
+        assert(isPlainObject(product.ports), `products.${id}.ports must be an object.`);
+        for (const [service, port] of Object.entries(product.ports)) {
+          assert(isValidPort(port), `products.${id}.ports.${service} must be a port (1-65535).`);
+        }
+      }
+    }
+  }
+  return local;
+}
+
+function overrideDefault(spec: StartWizardOptionSpec, value: unknown): StartWizardOptionSpec {
+  switch (spec.kind) {
+    case 'select': {
+      // The prompt pre-selects `defaultId` once `defaultIndex` is gone.
+      const prompt = spec.prompt && { title: spec.prompt.title };
+      return { ...spec, defaultId: value as string, prompt };
+    }
+    case 'multiselect':
+      return { ...spec, defaultIds: value as string[] };
+    case 'number':
+    case 'port': {
+      const prompt = spec.prompt && { ...spec.prompt, defaultValue: String(value) };
+      return { ...spec, defaultValue: value as number, prompt };
+    }
+    case 'string':
+    case 'path': {
+      const prompt = spec.prompt && { ...spec.prompt, defaultValue: value as string };
+      return { ...spec, defaultValue: value as string, prompt };
+    }
+    case 'boolean': {
+      const prompt = spec.prompt && { ...spec.prompt, defaultValue: value as boolean };
+      return { ...spec, defaultValue: value as boolean, prompt };
+    }
+    case 'secret':
+      // Rejected by applyLocalConfig.
+      return spec;
+  }
+}
+
+/** Wrap `product.portPlan` so the entries named in `ports` use those ports. */
+function overridePorts(
+  product: StartWizardProduct,
+  ports: Record<string, number>
+): StartWizardProduct['portPlan'] {
+  const portPlan = product.portPlan!;
+  return (ctx) =>
+    portPlan(ctx).map((entry) => {
+      const port = ports[entry.desiredService];
+      if (port === undefined) return entry;
+      assert(
+        !entry.optionName,
+        `products.${product.id}.ports.${entry.desiredService}: the port comes from option "${entry.optionName}"; set products.${product.id}.options.${entry.optionName} instead.`
+      );
+      return { ...entry, port };
+    });
+}
+
+/**
+ * Merge `local` over `config`. Overrides must reference existing products,
+ * options and modes, and the merged config is validated like
+ * {@link defineConfig}, so e.g. a select default that is not one of the
+ * option's ids fails.
+ */
+export function applyLocalConfig(
+  config: StartWizardConfig,
+  local: StartWizardLocalConfig
+): StartWizardConfig {
+  defineLocalConfig(local);
+  const modes = config.modes ?? [];
+  if (local.defaultMode !== undefined) {
+    assert(
+      modes.some((m) => m.id === local.defaultMode),
+      `defaultMode references unknown mode "${local.defaultMode}".`
+    );
+  }
+
+  for (const [id, product] of Object.entries(local.products ?? {})) {
+    const spec = config.products.find((p) => p.id === id);
+    assert(spec, `products.${id} references an unknown product.`);
+    for (const name of Object.keys(product.options ?? {})) {
+      const option = spec.options?.find((o) => o.name === name);
+      assert(option, `products.${id}.options.${name} references an unknown option.`);
+      assert(
+        option.kind !== 'secret',
+        `products.${id}.options.${name} is a secret; set it through its env variable instead.`
+      );
+    }
+    if (product.ports !== undefined) {
+      assert(spec.portPlan, `products.${id}.ports is set, but the product has no portPlan.`);
+    }
+  }
+
+  const products = config.products.map((product) => {
+    const overrides = local.products?.[product.id];
+    if (!overrides?.options && !overrides?.ports) return product;
+    const options = overrides.options;
+    return {
+      ...product,
+      ...(options && {
+        options: product.options?.map((spec) =>
+          spec.name in options ? overrideDefault(spec, options[spec.name]) : spec
+        ),
+      }),
+      ...(overrides.ports && { portPlan: overridePorts(product, overrides.ports) }),
+    };
+  });
+
+  return defineConfig({
+    ...config,
+    products,
+    defaultProduct: local.defaultProduct ?? config.defaultProduct,
+    modes:
+      local.defaultMode === undefined
+        ? config.modes
+        : modes.map((m) => ({ ...m, default: m.id === local.defaultMode })),
+  });
+}
@@ -0,0 +1,112 @@
+import type {
+  StartWizardOptionChoice,
+  StartWizardOptionChoicesFrom,
+  StartWizardOptionCondition,
+  StartWizardOptionContext,
+  StartWizardOptionSpec,
+  StartWizardResolvedOptionSpec,
+} from './startWizardConfig.js';
+
+function matches(expected: unknown, value: unknown): boolean {
+  return Array.isArray(expected) ? expected.includes(value) : expected === value;
+}
+
+/** Whether `spec` applies for the mode and the earlier option values. */
+export function isOptionActive(
+  spec: Pick<StartWizardOptionSpec, 'when'>,
+  ctx: StartWizardOptionContext
+): boolean {
+  const { when } = spec;
+  if (!when) return true;
+  if (typeof when === 'function') return when(ctx);
+  if (when.mode && !when.mode.includes(ctx.mode)) return false;
+  return Object.entries(when.option ?? {}).every(([name, expected]) =>
+    matches(expected, ctx.options[name])
+  );
+}
+
+/**
+ * Whether `when` can be decided from the mode alone, i.e. it is declarative
+ * and has no `option` part.
+ */
+export function isModeOnlyCondition(when: StartWizardOptionCondition | undefined): boolean {
+  return Boolean(when) && typeof when !== 'function' && !Object.keys(when?.option ?? {}).length;
+}
+
+/** Human-readable condition, e.g. `mode local`, `network=tunnel`. */
+export function describeOptionCondition(when: StartWizardOptionCondition): string {
+  if (typeof when === 'function') return 'a custom condition';
+  const parts = Object.entries(when.option ?? {}).map(([name, expected]) =>
+    Array.isArray(expected)
+      ? `${name} is one of ${expected.map(String).join('|')}`
+      : `${name}=${String(expected)}`
+  );
+  if (when.mode) parts.unshift(`mode ${when.mode.join('|')}`);
+  return parts.join(' and ');
+}
+
+async function resolveChoices(
+  name: string,
+  options: StartWizardOptionChoice[] | undefined,
+  choicesFrom: StartWizardOptionChoicesFrom | undefined,
+  ctx: StartWizardOptionContext
+): Promise<StartWizardOptionChoice[]> {
+  if (!choicesFrom) return options ?? [];
+  const choices: unknown = await choicesFrom(ctx);
+  const valid =
+    Array.isArray(choices) &&
+    choices.every(
+      (c: StartWizardOptionChoice) =>
+        Boolean(c) && typeof c.id === 'string' && c.id !== '' && typeof c.label === 'string'
+    );
+  if (!valid) {
+    throw new Error(`Option "${name}": choicesFrom must return a list of { id, label }.`);
+  }
+  return choices;
+}
+
+/**
+ * `spec` as asked for `ctx`: a computed `defaultValue`/`defaultId`/`defaultIds`
+ * is evaluated and `choicesFrom` replaces `options`.
+ */
+export async function resolveOptionSpec(
+  spec: StartWizardOptionSpec,
+  ctx: StartWizardOptionContext
+): Promise<StartWizardResolvedOptionSpec> {
+  // One case per kind so each computed value keeps the option's type.
+  switch (spec.kind) {
+    case 'select': {
+      const { choicesFrom, ...rest } = spec;
+      return {
+        ...rest,
+        options: await resolveChoices(spec.name, spec.options, choicesFrom, ctx),
+        defaultId: typeof spec.defaultId === 'function' ? spec.defaultId(ctx) : spec.defaultId,
+      };
+    }
+    case 'multiselect': {
+      const { choicesFrom, ...rest } = spec;
+      return {
+        ...rest,
+        options: await resolveChoices(spec.name, spec.options, choicesFrom, ctx),
+        defaultIds:
+          typeof spec.defaultIds === 'function' ? spec.defaultIds(ctx) : spec.defaultIds,
+      };
+    }
+    case 'secret':
+      return spec;
+    case 'string':
+    case 'path':
+      return typeof spec.defaultValue === 'function'
+        ? { ...spec, defaultValue: spec.defaultValue(ctx) }
+        : { ...spec, defaultValue: spec.defaultValue };
+    case 'number':
+    case 'port':
+      return typeof spec.defaultValue === 'function'
+        ? { ...spec, defaultValue: spec.defaultValue(ctx) }
+        : { ...spec, defaultValue: spec.defaultValue };
+    case 'boolean':
+      return typeof spec.defaultValue === 'function'
+        ? { ...spec, defaultValue: spec.defaultValue(ctx) }
+        : { ...spec, defaultValue: spec.defaultValue };
+  }
+}
@@ -1,111 +1,587 @@
 import {
   describePid,
   formatPortConflicts,
-  getListeningPidsOnPort,
-  killPid,
+  killPidGracefully,
+  waitForPortRelease,
 } from './ports.js';
-import { confirmPrompt, inputPrompt, selectPrompt } from './ttyPrompts.js';
-import type { StartWizardPortPlanEntry } from './startWizardConfig.js';
+import { flexiblePortRange, holdFreePort, type PortHold } from './freePorts.js';
+import { lookupPortListeners, resolveBindHost } from './portListeners.js';
+import { terminateProcess } from './processTree.js';
+import {
+  findOwningRun,
+  isRecordedProcess,
+  type StartWizardRunRecord,
+} from './runRegistry.js';
+import { confirmPrompt, portPrompt, selectPrompt } from './ttyPrompts.js';
+import type {
+  StartWizardConflictPolicy,
+  StartWizardPortPlanEntry,
+} from './startWizardConfig.js';
 
 export type PortConflict = {
   port: number;
   desiredService: string;
   flexible: boolean;
+  /** Inclusive range to search for a free port (`flexible: 'auto' | { range }`). */
+  range?: [number, number];
   optionName?: string;
-  listeners: Array<{ pid: number; command: string }>;
+  /**
+   * Policy from the port plan, already narrowed by `onConflictMatch`: `prompt`
+   * when the listeners' commands do not match.
+   */
+  onConflict?: StartWizardConflictPolicy;
+  /** Bind address the service wants, if declared in the port plan. */
+  host?: string;
+  /** Listeners on overlapping addresses, with the addresses they are bound to. */
+  listeners: Array<{ pid: number; command: string; addresses?: string[] }>;
+  /**
+   * Set (to the reason) when no backend could tell whether the port is in use.
+   * Such entries are reported, never silently treated as free.
+   */
+  undetermined?: string;
+  /** The earlier wizard run whose processes hold the port, if any. */
+  previousRun?: StartWizardRunRecord;
   newPort?: number;
+  /** How the conflict was resolved (set by the resolve functions). */
+  resolution?: PortConflictResolution;
 };
 
+/**
+ * - `kill`: the listeners were killed.
+ * - `reassign`: the service moves to `newPort`.
+ * - `reuse`: the listener stays and serves the port.
+ * - `restart`: the earlier wizard run holding the port was stopped.
+ * - `continue`: the port could not be checked; started anyway.
+ */
+export type PortConflictResolution = 'kill' | 'reassign' | 'reuse' | 'restart' | 'continue';
+
+/**
+ * A recorded answer to a port conflict prompt (e.g. from an answers file),
+ * replayed instead of prompting when the same port conflicts again.
+ */
+export type PortConflictDecision = {
+  port: number;
+  resolution: PortConflictResolution;
+  /** The port chosen for `reassign`. */
+  newPort?: number;
+};
+
+function staleDecision(conflict: PortConflict, reason: string): Error {
+  return new Error(
+    `The recorded answer for port ${conflict.port} (${conflict.desiredService}) no longer applies: ${reason}.`
+  );
+}
+
+/**
+ * `onConflict` applies only when every listener's command matches
+ * `onConflictMatch`; otherwise (or with no visible listener) fall back to
+ * prompting.
+ */
+function effectivePolicy(
+  entry: StartWizardPortPlanEntry,
+  listeners: Array<{ command: string }>
+): StartWizardConflictPolicy | undefined {
+  const { onConflict, onConflictMatch } = entry;
+  if (!onConflict || onConflictMatch === undefined) return onConflict;
+  const pattern =
+    typeof onConflictMatch === 'string' ? new RegExp(onConflictMatch) : onConflictMatch;
+  const matches =
+    listeners.length > 0 && listeners.every((l) => pattern.test(l.command));
+  return matches ? onConflict : 'prompt';
+}
+
+/**
+ * Find the port plan entries whose port is taken. With `previousRuns` (from
+ * `readRunRegistry`), listeners started by an earlier wizard run are marked
+ * with `previousRun`.
+ */
 export async function collectPortConflicts(
-  portPlan: StartWizardPortPlanEntry[]
+  portPlan: StartWizardPortPlanEntry[],
+  { previousRuns = [] }: { previousRuns?: StartWizardRunRecord[] } = {}
 ): Promise<PortConflict[]> {
   const conflicts: PortConflict[] = [];
   for (const entry of portPlan) {
-    const pids = getListeningPidsOnPort(entry.port);
-    if (!pids.length) continue;
+    const host = resolveBindHost(entry);
+    const lookup = lookupPortListeners(entry.port, { host });
+    if (lookup.status === 'free') continue;
+    const pids = lookup.status === 'in-use' ? lookup.pids : [];
+    const sockets = lookup.status === 'in-use' ? lookup.sockets : [];
+    const listeners = pids.map((pid) => {
+      const addresses = [
+        ...new Set(sockets.filter((s) => s.pid === pid).map((s) => s.address)),
+      ];
+      return {
+        pid,
+        command: describePid(pid),
+        addresses: addresses.length ? addresses : undefined,
+      };
+    });
     conflicts.push({
       port: entry.port,
       desiredService: entry.desiredService,
       flexible: Boolean(entry.flexible),
+      range: flexiblePortRange(entry),
       optionName: entry.optionName,
-      listeners: pids.map((pid) => ({ pid, command: describePid(pid) })),
+      onConflict: effectivePolicy(entry, listeners),
+      host,
+      listeners,
+      undetermined: lookup.status === 'unknown' ? lookup.reason : undefined,
+      previousRun:
+        lookup.status === 'in-use'
+          ? findOwningRun(previousRuns, { port: entry.port, pids })
+          : undefined,
     });
   }
   return conflicts;
 }
 
+/**
+ * Offer "reuse / restart" for products an earlier wizard run left running on
+ * their ports. `owners` maps each port to the product that wants it; only
+ * conflicts held by an earlier run of that same product are handled here.
+ *
+ * Reusing a run started in another mode needs explicit confirmation. Without a
+ * TTY (or with `--yes`) same-mode runs are reused and other-mode runs are left
+ * to `resolvePortConflictsInteractively`. A `reuse` or `restart` entry in
+ * `decisions` answers the prompt instead. With `dryRun`, nothing is stopped.
+ */
+export async function resolvePreviousRunConflicts({
+  conflicts,
+  owners,
+  mode,
+  yes,
+  killGraceMs = 3000,
+  portReleaseTimeoutMs = 5000,
+  dryRun = false,
+  decisions = [],
+  log = (line: string) => console.log(line),
+}: {
+  conflicts: PortConflict[];
+  owners: ReadonlyMap<number, string>;
+  mode: string;
+  yes: boolean;
+  killGraceMs?: number;
+  portReleaseTimeoutMs?: number;
+  dryRun?: boolean;
+  decisions?: readonly PortConflictDecision[];
+  /** Progress output; defaults to stdout. */
+  log?: (line: string) => void;
+}): Promise<{ reused: StartWizardRunRecord[]; conflicts: PortConflict[] }> {
+  const byProduct = new Map<string, PortConflict[]>();
+  const remaining: PortConflict[] = [];
+  for (const conflict of conflicts) {
+    const run = conflict.previousRun;
+    if (!run || run.productId !== owners.get(conflict.port)) {
+      remaining.push(conflict);
+      continue;
+    }
+    byProduct.set(run.productId, [...(byProduct.get(run.productId) ?? []), conflict]);
+  }
+
+  const reused: StartWizardRunRecord[] = [];
+  const interactive = !yes && Boolean(process.stdin.isTTY);
+  for (const [productId, owned] of byProduct) {
+    const run = owned[0]!.previousRun!;
+    const sameMode = run.mode === mode;
+    const ports = owned.map((c) => c.port).join(', ');
+    const resolveAs = (resolution: PortConflictResolution) => {
+      for (const conflict of owned) conflict.resolution = resolution;
+    };
+    const decided = decisions.find(
+      (d) =>
+        (d.resolution === 'reuse' || d.resolution === 'restart') &&
+        owned.some((c) => c.port === d.port)
+    );
+
+    if (decided?.resolution === 'reuse') {
+      log(`↺ Reusing ${productId} from an earlier run (port ${ports}).`);
+      resolveAs('reuse');
+      reused.push(run);
+      continue;
+    }
+    if (!decided && !interactive) {
+      if (sameMode) {
+        log(`↺ Reusing ${productId} from an earlier run (port ${ports}).`);
+        resolveAs('reuse');
+        reused.push(run);
+      } else {
+        remaining.push(...owned);
+      }
+      continue;
+    }
+
+    const action = decided
+      ? { id: decided.resolution }
+      : await selectPrompt({
+          title: `${productId} is already running from an earlier start-wizard run (mode ${run.mode}, port ${ports}). What do you want to do?`,
+          options: [
+            {
+              id: 'reuse',
+              label: sameMode ? 'Reuse it' : `Reuse it (started in mode ${run.mode}, not ${mode})`,
+            },
+            { id: 'restart', label: 'Restart it' },
+            { id: 'abort', label: 'Abort' },
+          ],
+        });
+    if (!action || action.id === 'abort') {
+      throw new Error('Aborted due to port conflict.');
+    }
+
+    if (action.id === 'reuse') {
+      if (!sameMode) {
+        log(
+          `⚠ ${productId} was started in mode ${run.mode}; this run uses mode ${mode}.`
+        );
+        const ok = await confirmPrompt({
+          question: `Reuse ${productId} from mode ${run.mode} anyway?`,
+          defaultValue: false,
+        });
+        if (!ok) throw new Error(`Aborted (${productId} is running in mode ${run.mode}).`);
+      }
+      resolveAs('reuse');
+      reused.push(run);
+      continue;
+    }
+
+    resolveAs('restart');
+    if (dryRun) continue;
+
+    const listenerPids = owned.flatMap((c) => c.listeners.map((l) => l.pid));
+    // Recorded PIDs may have been reused since; only signal the run's own.
+    const runPids = run.pids.filter((pid) => isRecordedProcess(run, pid, listenerPids));
+    await Promise.all(
+      [...new Set([...runPids, ...listenerPids])].map((pid) =>
+        terminateProcess(pid, { graceMs: killGraceMs, tree: true })
+      )
+    );
+    for (const conflict of owned) {
+      const release = await waitForPortRelease({
+        port: conflict.port,
+        host: conflict.host,
+        timeoutMs: portReleaseTimeoutMs,
+      });
+      if (release.free === null) {
+        log(
+          `⚠ Cannot tell whether port ${conflict.port} was released by the earlier ${productId} run (${release.reason}).`
+        );
+      } else if (!release.free) {
+        throw new Error(
+          `Port ${conflict.port} is still in use after stopping the earlier ${productId} run.`
+        );
+      }
+    }
+  }
+  return { reused, conflicts: remaining };
+}
+
+function findTakenPortError(
+  port: number,
+  host: string | undefined,
+  taken: ReadonlySet<number>
+): string | null {
+  if (taken.has(port)) return `Port ${port} is already claimed by this run.`;
+  if (lookupPortListeners(port, { host }).status === 'in-use') {
+    return `Port ${port} is already in use.`;
+  }
+  return null;
+}
+
+/**
+ * Resolve each conflict by killing, moving to another port or aborting.
+ *
+ * Entries with an `onConflict` policy other than `prompt` are resolved without
+ * prompting, in TTY and non-TTY runs alike; `kill` (`--kill`) only applies to
+ * entries that would prompt.
+ *
+ * Conflicts with a free-port range get a free port held while resolving, so
+ * two products never pick the same one; under `--yes` (or without a TTY) it
+ * is used without prompting. `claimedPorts` are the other ports of this run,
+ * which are never offered.
+ *
+ * Killing sends SIGTERM to each listener and its process tree, escalates to
+ * SIGKILL after `killGraceMs`, then waits up to `portReleaseTimeoutMs` for the
+ * port to clear. With `dryRun`, decisions are made (and recorded in
+ * `resolution`) but nothing is killed.
+ *
+ * `decisions` (recorded answers) replace the prompt for their port; one that
+ * no longer fits the conflict (e.g. a `reassign` to a port now in use) fails
+ * instead of prompting.
+ *
+ * Returns the holds on the free ports that were picked, so nothing else can
+ * take them meanwhile: release each one just before its product starts.
+ */
 export async function resolvePortConflictsInteractively({
   conflicts,
   kill,
   yes,
+  claimedPorts = [],
+  killGraceMs = 3000,
+  portReleaseTimeoutMs = 5000,
+  dryRun = false,
+  decisions = [],
+  log = (line: string) => console.log(line),
 }: {
   conflicts: PortConflict[];
   kill: boolean;
   yes: boolean;
-}): Promise<void> {
-  if (!conflicts.length) return;
+  claimedPorts?: Iterable<number>;
+  killGraceMs?: number;
+  portReleaseTimeoutMs?: number;
+  dryRun?: boolean;
+  decisions?: readonly PortConflictDecision[];
+  /** Progress output; defaults to stdout. */
+  log?: (line: string) => void;
+}): Promise<PortHold[]> {
+  if (!conflicts.length) return [];
 
   if (kill && !yes && !process.stdin.isTTY) {
     throw new Error('--kill in non-interactive mode requires --yes');
   }
 
-  console.log(formatPortConflicts(conflicts));
-  console.log('');
+  log(formatPortConflicts(conflicts));
+  log('');
 
-  for (const conflict of conflicts) {
-    const options = [
-      { id: 'kill', label: 'Kill processes on this port' },
-      ...(conflict.flexible
-        ? [{ id: 'change', label: 'Choose a different port' }]
-        : []),
-      { id: 'abort', label: 'Abort' },
-    ];
-
-    const action = kill
-      ? { id: 'kill', label: 'Kill' }
-      : await selectPrompt({
-          title: `Port ${conflict.port} is in use. Action for ${conflict.desiredService}?`,
-          options,
-        });
+  const taken = new Set<number>([...claimedPorts, ...conflicts.map((c) => c.port)]);
+  const holds: PortHold[] = [];
+  try {
+    for (const conflict of conflicts) {
+      await resolveConflict({
+        conflict,
+        decision: decisions.find((d) => d.port === conflict.port),
+        kill,
+        yes,
+        taken,
+        holds,
+        killGraceMs,
+        portReleaseTimeoutMs,
+        dryRun,
+        log,
+      });
+    }
+  } catch (err) {
+    await Promise.all(holds.map((hold) => hold.release()));
+    throw err;
+  }
+  return holds;
+}
 
-    if (!action || action.id === 'abort') {
-      throw new Error('Aborted due to port conflict.');
+async function resolveConflict({
+  conflict,
+  decision,
+  kill,
+  yes,
+  taken,
+  holds,
+  killGraceMs,
+  portReleaseTimeoutMs,
+  dryRun,
+  log,
+}: {
+  conflict: PortConflict;
+  decision?: PortConflictDecision;
+  kill: boolean;
+  yes: boolean;
+  taken: Set<number>;
+  holds: PortHold[];
+  killGraceMs: number;
+  portReleaseTimeoutMs: number;
+  dryRun: boolean;
+  log: (line: string) => void;
+}): Promise<void> {
+  if (conflict.undetermined) {
+    if (decision && decision.resolution !== 'continue') {
+      throw staleDecision(conflict, 'whether the port is free can no longer be checked');
     }
+    const proceed =
+      decision || yes || !process.stdin.isTTY
+        ? true
+        : (
+            await selectPrompt({
+              title: `Cannot tell whether port ${conflict.port} (${conflict.desiredService}) is free. Continue?`,
+              options: [
+                { id: 'continue', label: 'Continue anyway' },
+                { id: 'abort', label: 'Abort' },
+              ],
+            })
+          )?.id === 'continue';
+    if (!proceed) throw new Error('Aborted due to port conflict.');
+    log(
+      `⚠ Could not check port ${conflict.port}; install ss, netstat or lsof for conflict detection.`
+    );
+    conflict.resolution = 'continue';
+    return;
+  }
 
-    if (action.id === 'change') {
-      const next = await inputPrompt({
-        question: `Enter a new port for ${conflict.desiredService}:`,
-        defaultValue: String(conflict.port + 1),
-        validate: (value) => {
-          const n = Number.parseInt(value, 10);
-          if (!Number.isFinite(n) || n <= 0) return 'Port must be a positive number.';
-          return null;
-        },
-      });
-      conflict.newPort = Number.parseInt(next, 10);
-      continue;
+  const policy = conflict.onConflict ?? 'prompt';
+  if (policy === 'abort') {
+    throw new Error(
+      `Port ${conflict.port} (${conflict.desiredService}) is in use and its port plan entry has onConflict: 'abort'.`
+    );
+  }
+  if (policy === 'reuse') {
+    log(
+      `↺ ${conflict.desiredService}: reusing the process already listening on ${conflict.port}.`
+    );
+    conflict.resolution = 'reuse';
+    return;
+  }
+  const useNewPort = (port: number) => {
+    conflict.resolution = 'reassign';
+    conflict.newPort = port;
+    taken.add(port);
+  };
+
+  if (decision && policy === 'prompt') {
+    if (decision.resolution === 'reuse') {
+      conflict.resolution = 'reuse';
+      return;
+    }
+    if (decision.resolution === 'reassign') {
+      if (!conflict.flexible) throw staleDecision(conflict, 'its port is no longer flexible');
+      if (decision.newPort === undefined) throw staleDecision(conflict, 'no new port');
+      const error = findTakenPortError(decision.newPort, conflict.host, taken);
+      if (error) throw staleDecision(conflict, error.replace(/\.$/, ''));
+      useNewPort(decision.newPort);
+      log(
+        `→ ${conflict.desiredService}: using port ${decision.newPort} instead of ${conflict.port}.`
+      );
+      return;
     }
+    if (decision.resolution !== 'kill') {
+      throw staleDecision(conflict, `"${decision.resolution}" does not apply to this port`);
+    }
+    if (!conflict.listeners.length) {
+      throw staleDecision(conflict, 'the process on the port cannot be identified');
+    }
+    conflict.resolution = 'kill';
+    if (!dryRun) await killListeners(conflict, { killGraceMs, portReleaseTimeoutMs, log });
+    return;
+  }
 
-    if (action.id === 'kill') {
-      if (!kill) {
-        const ok = yes
-          ? true
-          : await confirmPrompt({
-              question: `Kill ${conflict.listeners.length} process(es) listening on ${conflict.port}?`,
-              defaultValue: false,
-            });
-        if (!ok) throw new Error('Aborted (user declined to kill processes).');
-      }
+  // `--kill` only applies to entries that would otherwise prompt.
+  const killNow = policy === 'kill' || (policy === 'prompt' && kill);
 
-      for (const listener of conflict.listeners) {
-        killPid(listener.pid);
-      }
-      const remaining = getListeningPidsOnPort(conflict.port);
-      if (remaining.length) {
-        throw new Error(`Port ${conflict.port} is still in use after kill attempts.`);
+  let candidate: PortHold | null = null;
+  if (conflict.range && !killNow) {
+    candidate = await holdFreePort({
+      range: conflict.range,
+      host: conflict.host,
+      exclude: taken,
+    });
+    if (candidate) holds.push(candidate);
+    if (policy === 'reassign' || yes || !process.stdin.isTTY) {
+      if (!candidate) {
+        const [from, to] = conflict.range;
+        throw new Error(
+          `No free port for ${conflict.desiredService} in ${from}-${to} (port ${conflict.port} is in use).`
+        );
       }
+      useNewPort(candidate.port);
+      log(
+        `→ ${conflict.desiredService}: using free port ${candidate.port} instead of ${conflict.port}.`
+      );
+      return;
     }
   }
-}
 
+  if (!conflict.listeners.length && killNow) {
+    throw new Error(
+      `Port ${conflict.port} is in use by a process that cannot be identified (try running with more privileges).`
+    );
+  }
+
+  const options = [
+    ...(candidate ? [{ id: 'auto', label: `Use free port ${candidate.port}` }] : []),
+    ...(conflict.listeners.length
+      ? [{ id: 'kill', label: 'Kill processes on this port' }]
+      : []),
+    ...(conflict.flexible ? [{ id: 'change', label: 'Choose a different port' }] : []),
+    { id: 'abort', label: 'Abort' },
+  ];
+  if (options.length < 2) {
+    throw new Error(
+      `Port ${conflict.port} is in use by a process that cannot be identified; free it manually and retry.`
+    );
+  }
+
+  const action = killNow
+    ? { id: 'kill', label: 'Kill' }
+    : await selectPrompt({
+        title: `Port ${conflict.port} is in use. Action for ${conflict.desiredService}?`,
+        options,
+      });
+
+  if (!action || action.id === 'abort') {
+    throw new Error('Aborted due to port conflict.');
+  }
+
+  if (candidate && action.id === 'auto') {
+    useNewPort(candidate.port);
+    return;
+  }
+  if (candidate) {
+    // Not used: free it so it can be typed in or picked by another product.
+    holds.splice(holds.indexOf(candidate), 1);
+    await candidate.release();
+  }
+
+  if (action.id === 'change') {
+    const next = await portPrompt({
+      question: `Enter a new port for ${conflict.desiredService}:`,
+      defaultValue: candidate?.port ?? conflict.port + 1,
+      validate: (port) => findTakenPortError(port, conflict.host, taken),
+    });
+    useNewPort(next);
+    return;
+  }
+
+  if (action.id === 'kill') {
+    conflict.resolution = 'kill';
+    if (dryRun) return;
+    if (!killNow) {
+      const ok = yes
+        ? true
+        : await confirmPrompt({
+            question: `Kill ${conflict.listeners.length} process(es) listening on ${conflict.port}?`,
+            defaultValue: false,
+          });
+      if (!ok) throw new Error('Aborted (user declined to kill processes).');
+    }
+
+    await killListeners(conflict, { killGraceMs, portReleaseTimeoutMs, log });
+  }
+}
 
+/** Kill the listeners on the conflicting port and wait for it to clear. */
+async function killListeners(
+  conflict: PortConflict,
+  {
+    killGraceMs,
+    portReleaseTimeoutMs,
+    log,
+  }: { killGraceMs: number; portReleaseTimeoutMs: number; log: (line: string) => void }
+): Promise<void> {
+  const portCleared = () =>
+    lookupPortListeners(conflict.port, { host: conflict.host }).status !== 'in-use';
+  await Promise.all(
+    conflict.listeners.map((listener) =>
+      killPidGracefully(listener.pid, { graceMs: killGraceMs, tree: true, until: portCleared })
+    )
+  );
+  // Workers may release the socket a moment after their parent exits.
+  const release = await waitForPortRelease({
+    port: conflict.port,
+    host: conflict.host,
+    timeoutMs: portReleaseTimeoutMs,
+  });
+  if (release.free === null) {
+    log(
+      `⚠ Cannot tell whether port ${conflict.port} was released (${release.reason}).`
+    );
+  } else if (!release.free) {
+    const holders = release.pids.length ? ` (pid ${release.pids.join(', ')})` : '';
+    throw new Error(
+      `Port ${conflict.port} is still in use after kill attempts${holders}.`
+    );
+  }
+}
@@ -0,0 +1,364 @@
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import net from 'node:net';
+
+/**
+ * One listening TCP socket on the looked-up port.
+ */
+export type ListeningSocket = {
+  /** Bound address, e.g. `127.0.0.1`, `::1`, `0.0.0.0` or `::`. */
+  address: string;
+  family: 4 | 6;
+  /** Owning process, when visible to this user. */
+  pid?: number;
+};
+
+/**
+ * Result of asking "who is listening on this port?".
+ *
+ * - `free`: nothing listens on the port (on the requested host).
+ * - `in-use`: something listens; `pids` may be empty when the owning process
+ *   is not visible to this user.
+ * - `unknown`: no backend could answer (e.g. no `/proc`, `ss`, `netstat` or
+ *   `lsof`). Callers must not treat this as free.
+ */
+export type PortListenerLookup =
+  | { status: 'free'; backend: string }
+  | {
+      status: 'in-use';
+      backend: string;
+      pids: number[];
+      sockets: ListeningSocket[];
+    }
+  | { status: 'unknown'; reason: string };
+
+/**
+ * A listener-detection strategy. `list` returns null when the backend is not
+ * usable on this machine, so the next backend is tried.
+ */
+export type PortListenerBackend = {
+  name: string;
+  list: (port: number) => ListeningSocket[] | null;
+};
+
+type ToolResult =
+  | { ok: true; stdout: string; status: number | null }
+  | { ok: false };
+
+function runTool(command: string, args: string[]): ToolResult {
+  const res = spawnSync(command, args, { encoding: 'utf8' });
+  if (res.error) return { ok: false };
+  return { ok: true, stdout: res.stdout ?? '', status: res.status };
+}
+
+function uniquePids(values: Iterable<number | undefined>): number[] {
+  return [...new Set(values)].filter(
+    (n): n is number => n !== undefined && Number.isFinite(n) && n > 0
+  );
+}
+
+/**
+ * Normalize a textual bind address as printed by ss/netstat/lsof
+ * (`[::1]`, `*`, `fe80::1%eth0`, `::ffff:127.0.0.1`).
+ */
+function parseBoundAddress(raw: string, familyHint?: 4 | 6): ListeningSocket {
+  let address = raw.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  if (address === '*') address = familyHint === 4 ? '0.0.0.0' : '::';
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return { address: mapped[1]!, family: 4 };
+  const family = net.isIPv6(address) ? 6 : net.isIPv4(address) ? 4 : (familyHint ?? 4);
+  return { address, family };
+}
+
+/** Split `host:port` / `[v6]:port` / `*:port` into the host part. */
+function hostOfEndpoint(endpoint: string): string {
+  return endpoint.slice(0, endpoint.lastIndexOf(':'));
+}
+
+const TCP_LISTEN_STATE = '0A';
+
+function decodeProcAddress(hex: string): ListeningSocket {
+  if (hex.length === 8) {
+    const bytes = hex.match(/../g)!.map((b) => Number.parseInt(b, 16)).reverse();
+    return { address: bytes.join('.'), family: 4 };
+  }
+  // Four 32-bit words, each in host (little-endian) byte order.
+  const bytes = hex
+    .match(/.{8}/g)!
+    .flatMap((word) => word.match(/../g)!.reverse());
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(Number.parseInt(`${bytes[i]}${bytes[i + 1]}`, 16).toString(16));
+  }
+  return parseBoundAddress(compressIpv6(groups), 6);
+}
+
+function compressIpv6(groups: string[]): string {
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== '0') {
+      i += 1;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === '0') j += 1;
+    if (j - i > bestLen && j - i > 1) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+  if (bestStart < 0) return groups.join(':');
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLen).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Listening sockets on `port` keyed by inode, from `/proc/net/tcp{,6}`.
+ * Returns null if neither table is readable.
+ */
+function readListeningSockets(port: number): Map<string, ListeningSocket> | null {
+  const sockets = new Map<string, ListeningSocket>();
+  let readable = false;
+  for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let content: string;
+    try {
+      content = fs.readFileSync(table, 'utf8');
+    } catch {
+      continue;
+    }
+    readable = true;
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      // sl local_address rem_address st tx:rx tr:when retrnsmt uid timeout inode
+      const local = fields[1];
+      if (!local || fields[3] !== TCP_LISTEN_STATE) continue;
+      const [addressHex, portHex] = local.split(':');
+      if (Number.parseInt(portHex ?? '', 16) !== port) continue;
+      const inode = fields[9];
+      if (!inode || inode === '0' || !addressHex) continue;
+      sockets.set(inode, decodeProcAddress(addressHex));
+    }
+  }
+  return readable ? sockets : null;
+}
+
+/**
+ * Attach owning PIDs to `sockets` by scanning `/proc/<pid>/fd`. Processes of
+ * other users are skipped silently (their fds are not readable).
+ */
+function attachPidsFromProc(sockets: Map<string, ListeningSocket>): ListeningSocket[] {
+  const result: ListeningSocket[] = [];
+  const ownedInodes = new Set<string>();
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync('/proc');
+  } catch {
+    // leave pids unknown
+  }
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    let fds: string[];
+    try {
+      fds = fs.readdirSync(`/proc/${entry}/fd`);
+    } catch {
+      continue;
+    }
+    for (const fd of fds) {
+      let target: string;
+      try {
+        target = fs.readlinkSync(`/proc/${entry}/fd/${fd}`);
+      } catch {
+        continue;
+      }
+      const inode = /^socket:\[(\d+)\]$/.exec(target)?.[1];
+      const socket = inode ? sockets.get(inode) : undefined;
+      if (!inode || !socket) continue;
+      result.push({ ...socket, pid: Number(entry) });
+      ownedInodes.add(inode);
+    }
+  }
+  // Sockets nobody visible owns are still listeners.
+  for (const [inode, socket] of sockets) {
+    if (!ownedInodes.has(inode)) result.push(socket);
+  }
+  return result;
+}
+
+export const procfsListenerBackend: PortListenerBackend = {
+  name: 'procfs',
+  list: (port) => {
+    if (process.platform !== 'linux') return null;
+    const sockets = readListeningSockets(port);
+    if (!sockets) return null;
+    return sockets.size ? attachPidsFromProc(sockets) : [];
+  },
+};
+
+export const ssListenerBackend: PortListenerBackend = {
+  name: 'ss',
+  list: (port) => {
+    const res = runTool('ss', ['-tlnp', 'sport', '=', `:${port}`]);
+    if (!res.ok || res.status !== 0) return null;
+    return res.stdout
+      .split('\n')
+      .filter((l) => l.trim() !== '' && !l.startsWith('State'))
+      .flatMap((l) => {
+        // State Recv-Q Send-Q Local:Port Peer:Port Process
+        const local = l.trim().split(/\s+/)[3] ?? '';
+        const socket = parseBoundAddress(hostOfEndpoint(local));
+        const pids = uniquePids(
+          [...l.matchAll(/pid=(\d+)/g)].map((m) => Number.parseInt(m[1]!, 10))
+        );
+        return pids.length ? pids.map((pid) => ({ ...socket, pid })) : [socket];
+      });
+  },
+};
+
+export const netstatListenerBackend: PortListenerBackend = {
+  name: 'netstat',
+  list: (port) => {
+    // Linux net-tools format; other platforms fall through to lsof.
+    if (process.platform !== 'linux') return null;
+    const res = runTool('netstat', ['-tlnp']);
+    if (!res.ok || res.status !== 0) return null;
+    return res.stdout.split('\n').flatMap((l) => {
+      const fields = l.trim().split(/\s+/);
+      const proto = fields[0] ?? '';
+      const local = fields[3] ?? '';
+      if (!/^tcp/.test(proto) || !local.endsWith(`:${port}`)) return [];
+      const socket = parseBoundAddress(hostOfEndpoint(local), proto === 'tcp6' ? 6 : 4);
+      const pid = Number.parseInt(/\s(\d+)\/\S*\s*$/.exec(l)?.[1] ?? '', 10);
+      return [Number.isFinite(pid) ? { ...socket, pid } : socket];
+    });
+  },
+};
+
+export const lsofListenerBackend: PortListenerBackend = {
+  name: 'lsof',
+  list: (port) => {
+    const res = runTool('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-F', 'ptn']);
+    if (!res.ok) return null;
+    // lsof exits 1 with no output when nothing matches.
+    if (res.status !== 0 && res.stdout.trim() !== '') return null;
+    const sockets: ListeningSocket[] = [];
+    let pid: number | undefined;
+    let family: 4 | 6 | undefined;
+    for (const line of res.stdout.split('\n')) {
+      const tag = line[0];
+      const value = line.slice(1);
+      if (tag === 'p') pid = Number.parseInt(value, 10);
+      else if (tag === 't') family = value === 'IPv6' ? 6 : value === 'IPv4' ? 4 : undefined;
+      else if (tag === 'n') {
+        sockets.push({ ...parseBoundAddress(hostOfEndpoint(value), family), pid });
+      }
+    }
+    return sockets;
+  },
+};
+
+/**
+ * Backends in the order they are tried: native `/proc` parsing on Linux, then
+ * `ss`, `netstat` and `lsof`.
+ */
+export const defaultPortListenerBackends: PortListenerBackend[] = [
+  procfsListenerBackend,
+  ssListenerBackend,
+  netstatListenerBackend,
+  lsofListenerBackend,
+];
+
+type BindTarget = { address: string; family: 4 | 6 };
+
+function bindTargets(host: string): BindTarget[] {
+  if (host === 'localhost') {
+    return [
+      { address: '127.0.0.1', family: 4 },
+      { address: '::1', family: 6 },
+    ];
+  }
+  return [parseBoundAddress(host)];
+}
+
+function isWildcard(target: BindTarget): boolean {
+  return target.address === '0.0.0.0' || target.address === '::';
+}
+
+/**
+ * True if a socket bound to `address` would collide with binding `host`.
+ *
+ * Wildcards (`0.0.0.0`, `::`) overlap every address of their family, and `::`
+ * (dual-stack) also overlaps IPv4. `localhost` means both loopbacks.
+ */
+export function bindAddressesOverlap(address: string, host: string): boolean {
+  const listener = parseBoundAddress(address);
+  return bindTargets(host).some((target) => {
+    if (listener.address === '::' || target.address === '::') return true;
+    if (listener.family !== target.family) return false;
+    return isWildcard(listener) || isWildcard(target) || listener.address === target.address;
+  });
+}
+
+/**
+ * The bind address implied by a port plan entry's `host`/`family`, or
+ * undefined to match listeners on any address.
+ */
+export function resolveBindHost({
+  host,
+  family,
+}: {
+  host?: string;
+  family?: 4 | 6;
+}): string | undefined {
+  if (host) return host;
+  if (family === 4) return '0.0.0.0';
+  if (family === 6) return '::';
+  return undefined;
+}
+
+/**
+ * Find the processes listening on `port` using the first backend that works.
+ *
+ * With `host`, only listeners whose bind address overlaps `host` count. If a
+ * backend sees a listener but cannot attribute it to a PID, later backends are
+ * asked for PIDs before settling for an empty list.
+ */
+export function lookupPortListeners(
+  port: number,
+  {
+    host,
+    backends = defaultPortListenerBackends,
+  }: { host?: string; backends?: PortListenerBackend[] } = {}
+): PortListenerLookup {
+  let anonymousInUse: PortListenerLookup | null = null;
+  for (const backend of backends) {
+    const listed = backend.list(port);
+    if (!listed) continue;
+    const sockets = host
+      ? listed.filter((s) => bindAddressesOverlap(s.address, host))
+      : listed;
+    if (!sockets.length) {
+      // A later backend saying "free" must not override an earlier "in use".
+      if (anonymousInUse) continue;
+      return { status: 'free', backend: backend.name };
+    }
+    const res: PortListenerLookup = {
+      status: 'in-use',
+      backend: backend.name,
+      pids: uniquePids(sockets.map((s) => s.pid)),
+      sockets,
+    };
+    if (res.pids.length) return res;
+    anonymousInUse ??= res;
+  }
+  return (
+    anonymousInUse ?? {
+      status: 'unknown',
+      reason: `no listener-detection backend available (tried ${backends
+        .map((b) => b.name)
+        .join(', ')})`,
+    }
+  );
+}
@@ -1,16 +1,17 @@
 import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
 import net from 'node:net';
 
-export async function isPortOpen({
-  host = '127.0.0.1',
-  port,
-  timeoutMs = 400,
-}: {
-  host?: string;
-  port: number;
-  timeoutMs?: number;
-}): Promise<boolean> {
-  return await new Promise((resolve) => {
+import { lookupPortListeners } from './portListeners.js';
+import { terminateProcess, type TerminateProcessOptions } from './processTree.js';
+
+/** True for an integer TCP port (1-65535). */
+export function isValidPort(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= 65_535;
+}
+
+function connectOnce(host: string, port: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
     const socket = net.createConnection({ host, port, timeout: timeoutMs }, () => {
       socket.end();
       resolve(true);
@@ -28,8 +29,55 @@ export async function isPortOpen({
   });
 }
 
+/**
+ * Hosts to connect to when probing a bind address: wildcards and `localhost`
+ * are reachable through the loopback addresses.
+ */
+function probeHosts(host: string | undefined): string[] {
+  if (!host || host === 'localhost') return ['127.0.0.1', '::1'];
+  if (host === '0.0.0.0') return ['127.0.0.1'];
+  if (host === '::') return ['::1', '127.0.0.1'];
+  return [host];
+}
+
+/**
+ * True if a TCP connection to `port` succeeds. Without `host`, both
+ * `127.0.0.1` and `::1` are tried.
+ */
+export async function isPortOpen({
+  host,
+  port,
+  timeoutMs = 400,
+}: {
+  host?: string;
+  port: number;
+  timeoutMs?: number;
+}): Promise<boolean> {
+  for (const target of probeHosts(host)) {
+    if (await connectOnce(target, port, timeoutMs)) return true;
+  }
+  return false;
+}
+
+/**
+ * True if something listens on `port` on an address overlapping `host` (any
+ * address when omitted). Uses the same listener lookup as port conflict
+ * detection, and falls back to connecting when no backend is available.
+ */
+export async function isPortInUse({
+  host,
+  port,
+}: {
+  host?: string;
+  port: number;
+}): Promise<boolean> {
+  const lookup = lookupPortListeners(port, { host });
+  if (lookup.status !== 'unknown') return lookup.status === 'in-use';
+  return await isPortOpen({ host, port, timeoutMs: 500 });
+}
+
 export async function waitForPortOpen({
-  host = '127.0.0.1',
+  host,
   port,
   timeoutMs = 20_000,
   intervalMs = 250,
@@ -55,20 +103,33 @@ function safeExecFileSync(command: string, args: string[]): string {
   }
 }
 
-export function getListeningPidsOnPort(port: number): number[] {
-  // macOS/Linux: lsof is the most reliable.
-  const out = safeExecFileSync('lsof', ['-ti', `:${port}`]);
-  if (!out) return [];
-  return out
-    .split(/\s+/)
-    .map((v) => Number.parseInt(v, 10))
-    .filter((n) => Number.isFinite(n));
+/**
+ * PIDs listening on `port`. Returns [] both when the port is free and when it
+ * cannot be determined; use `lookupPortListeners` to tell those apart.
+ */
+export function getListeningPidsOnPort(port: number, host?: string): number[] {
+  const res = lookupPortListeners(port, { host });
+  return res.status === 'in-use' ? res.pids : [];
+}
+
+function readProcCmdline(pid: number): string {
+  if (process.platform !== 'linux') return '';
+  try {
+    return fs
+      .readFileSync(`/proc/${pid}/cmdline`, 'utf8')
+      .split('\0')
+      .filter(Boolean)
+      .join(' ');
+  } catch {
+    return '';
+  }
 }
 
 export function describePid(pid: number): string {
   const cmdline =
     safeExecFileSync('ps', ['-o', 'command=', '-p', String(pid)]) ||
-    safeExecFileSync('ps', ['-o', 'comm=', '-p', String(pid)]);
+    safeExecFileSync('ps', ['-o', 'comm=', '-p', String(pid)]) ||
+    readProcCmdline(pid);
   return cmdline || '(unknown)';
 }
 
@@ -84,19 +145,97 @@ export function killPid(pid: number, { dryRun = false }: { dryRun?: boolean } =
   }
 }
 
+/**
+ * Stop `pid` gracefully (SIGTERM, then SIGKILL after `graceMs`), optionally
+ * with its whole process tree. Resolves true once it has exited.
+ */
+export async function killPidGracefully(
+  pid: number,
+  {
+    dryRun = false,
+    ...options
+  }: { dryRun?: boolean } & TerminateProcessOptions = {}
+): Promise<boolean> {
+  if (dryRun) return true;
+  return (await terminateProcess(pid, options)).exited;
+}
+
+/**
+ * Poll until nothing listens on `port` (on addresses overlapping `host`), or
+ * `timeoutMs` passes. `pids` lists the processes still listening on timeout.
+ * `free` is null when listeners cannot be looked up (`reason` says why).
+ */
+export async function waitForPortRelease({
+  port,
+  host,
+  timeoutMs = 5000,
+  intervalMs = 100,
+}: {
+  port: number;
+  host?: string;
+  timeoutMs?: number;
+  intervalMs?: number;
+}): Promise<{ free: boolean | null; pids: number[]; reason?: string }> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const lookup = lookupPortListeners(port, { host });
+    if (lookup.status === 'unknown') return { free: null, pids: [], reason: lookup.reason };
+    if (lookup.status === 'free') return { free: true, pids: [] };
+    if (Date.now() >= deadline) return { free: false, pids: lookup.pids };
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
 export type PortConflictSummary = {
   port: number;
   desiredService: string;
-  listeners: Array<{ pid: number; command: string }>;
+  /** Bind address the service wants, if declared. */
+  host?: string;
+  listeners: Array<{ pid: number; command: string; addresses?: string[] }>;
+  /** Set when listeners could not be determined (reason). */
+  undetermined?: string;
+  /** Set when the listeners were started by an earlier wizard run. */
+  previousRun?: { productId: string; mode: string; startedAt: string };
 };
 
+function formatAge(startedAt: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(startedAt)) / 60_000);
+  if (!Number.isFinite(minutes) || minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+}
+
+function formatEndpoint(port: number) {
+  return (address: string) =>
+    address.includes(':') ? `[${address}]:${port}` : `${address}:${port}`;
+}
+
 export function formatPortConflicts(conflicts: PortConflictSummary[]): string {
   const lines: string[] = [];
   lines.push('Port conflicts detected:');
   for (const c of conflicts) {
-    lines.push(`- ${c.port} (${c.desiredService}) is in use by:`);
+    if (c.undetermined) {
+      lines.push(
+        `- ${c.port} (${c.desiredService}): cannot determine listeners (${c.undetermined})`
+      );
+      continue;
+    }
+    const target = c.host ? ` on ${c.host}` : '';
+    lines.push(`- ${c.port}${target} (${c.desiredService}) is in use by:`);
+    if (!c.listeners.length) {
+      lines.push('    (process not visible to this user)');
+    }
     for (const proc of c.listeners) {
-      lines.push(`    pid ${proc.pid}: ${proc.command}`);
+      const bound = proc.addresses?.length
+        ? ` [${proc.addresses.map(formatEndpoint(c.port)).join(', ')}]`
+        : '';
+      lines.push(`    pid ${proc.pid}${bound}: ${proc.command}`);
+    }
+    if (c.previousRun) {
+      const run = c.previousRun;
+      lines.push(
+        `    started by an earlier start-wizard run of ${run.productId} (mode ${run.mode}, ${formatAge(run.startedAt)})`
+      );
     }
   }
   return lines.join('\n');
@@ -0,0 +1,185 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+
+function readParentPidsFromProc(): Map<number, number> | null {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync('/proc');
+  } catch {
+    return null;
+  }
+  const parents = new Map<number, number>();
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+      // `comm` (field 2) may contain spaces/parens; ppid follows the last `)`.
+      const rest = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const ppid = Number.parseInt(rest[1] ?? '', 10);
+      if (Number.isFinite(ppid)) parents.set(Number(entry), ppid);
+    } catch {
+      // process exited while scanning
+    }
+  }
+  return parents;
+}
+
+function readParentPidsFromPs(): Map<number, number> {
+  const parents = new Map<number, number>();
+  let out = '';
+  try {
+    out = execFileSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf8' });
+  } catch {
+    return parents;
+  }
+  for (const line of out.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map((v) => Number.parseInt(v, 10));
+    if (Number.isFinite(pid) && Number.isFinite(ppid)) parents.set(pid!, ppid!);
+  }
+  return parents;
+}
+
+/**
+ * List all descendants of `pid` (children, grandchildren, …), parents first.
+ * Uses `/proc` on Linux and `ps` elsewhere; returns [] if neither works.
+ */
+export function listDescendantPids(pid: number): number[] {
+  const parents =
+    (process.platform === 'linux' ? readParentPidsFromProc() : null) ??
+    readParentPidsFromPs();
+  const children = new Map<number, number[]>();
+  for (const [child, parent] of parents) {
+    const list = children.get(parent) ?? [];
+    list.push(child);
+    children.set(parent, list);
+  }
+
+  const result: number[] = [];
+  const queue = [...(children.get(pid) ?? [])];
+  while (queue.length) {
+    const next = queue.shift()!;
+    if (result.includes(next)) continue;
+    result.push(next);
+    queue.push(...(children.get(next) ?? []));
+  }
+  return result;
+}
+
+function isZombie(pid: number): boolean {
+  if (process.platform !== 'linux') return false;
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+    return stat.slice(stat.lastIndexOf(')') + 2).startsWith('Z');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True if `pid` exists and is not a zombie (exited but not yet reaped).
+ */
+export function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch (err) {
+    // EPERM: exists but owned by someone else.
+    return (err as NodeJS.ErrnoException)?.code === 'EPERM';
+  }
+  return !isZombie(pid);
+}
+
+/**
+ * When `pid` started, as an opaque string that only needs to compare equal
+ * for the same process: the start time in clock ticks from `/proc` on Linux,
+ * `ps -o lstart=` elsewhere. Null if the process is gone or it cannot be read.
+ */
+export function processStartTime(pid: number): string | null {
+  if (process.platform === 'linux') {
+    try {
+      const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+      // Field 22; fields after `comm` start at 3.
+      return stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19] ?? null;
+    } catch {
+      return null;
+    }
+  }
+  try {
+    const out = execFileSync('ps', ['-o', 'lstart=', '-p', String(pid)], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    return out || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send `signal` to `pid` and all of its descendants.
+ * The tree is snapshotted first so re-parented grandchildren are not missed.
+ */
+export function signalProcessTree(pid: number, signal: NodeJS.Signals): void {
+  const pids = [pid, ...listDescendantPids(pid)];
+  for (const target of pids) {
+    try {
+      process.kill(target, signal);
+    } catch {
+      // ignore (already gone / not permitted)
+    }
+  }
+}
+
+export type TerminateProcessOptions = {
+  /** Signals to send in order, escalating only while the target survives. */
+  signals?: NodeJS.Signals[];
+  /** How long to wait after each signal before escalating. */
+  graceMs?: number;
+  /** Also signal every descendant (snapshotted before the first signal). */
+  tree?: boolean;
+  /**
+   * Extra condition that must hold before the target counts as gone, e.g.
+   * "the port is free" when a surviving worker still holds the socket.
+   */
+  until?: () => boolean;
+  pollMs?: number;
+};
+
+/**
+ * Terminate `pid` gracefully: send one signal, wait up to `graceMs` for it
+ * (and its tree, with `tree`) to exit and `until` to hold, and escalate to the
+ * next signal only if needed. Resolves with `exited: true` and the signal that
+ * worked (none if it was already gone), or `exited: false` if the process
+ * survived the last one.
+ */
+export async function terminateProcess(
+  pid: number,
+  {
+    signals = ['SIGTERM', 'SIGKILL'],
+    graceMs = 3000,
+    tree = false,
+    until = () => true,
+    pollMs = 50,
+  }: TerminateProcessOptions = {}
+): Promise<{ exited: boolean; signal?: NodeJS.Signals }> {
+  const targets = tree ? [pid, ...listDescendantPids(pid)] : [pid];
+  const done = () => !targets.some(isPidAlive) && until();
+  if (done()) return { exited: true };
+
+  for (const signal of signals) {
+    for (const target of targets) {
+      if (!isPidAlive(target)) continue;
+      try {
+        process.kill(target, signal);
+      } catch {
+        // ignore (already gone / not permitted)
+      }
+    }
+    const deadline = Date.now() + graceMs;
+    while (Date.now() < deadline) {
+      if (done()) return { exited: true, signal };
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+    if (done()) return { exited: true, signal };
+  }
+  return { exited: false };
+}
@@ -1,8 +1,8 @@
 import { confirmPrompt } from './ttyPrompts.js';
-import type { StartWizardRunMode } from './startWizardConfig.js';
+import { isGuardedMode, type StartWizardModeSpec } from './startWizardConfig.js';
 
 /**
- * Enforce production guardrails.
+ * Enforce production guardrails for modes declared with `guarded: true`.
  *
  * - In non-interactive mode, `--allow-prod` is required.
  * - In interactive mode, prompt unless `--allow-prod` or `--yes` is provided.
@@ -12,17 +12,17 @@ export async function enforceProdGuard({
   allowProd,
   yes,
 }: {
-  mode: StartWizardRunMode;
+  mode: StartWizardModeSpec;
   allowProd: boolean;
   yes: boolean;
 }): Promise<boolean> {
-  if (mode !== 'prod') return allowProd;
+  if (!isGuardedMode(mode)) return allowProd;
 
   const isTty = Boolean(process.stdin.isTTY && process.stdout.isTTY);
   if (!isTty) {
     if (!allowProd) {
       throw new Error(
-        'Refusing to run in prod mode without --allow-prod in non-interactive mode.'
+        `Refusing to run in ${mode.id} mode without --allow-prod in non-interactive mode.`
       );
     }
     return true;
@@ -31,13 +31,11 @@ export async function enforceProdGuard({
   if (allowProd || yes) return true;
 
   const ok = await confirmPrompt({
-    question: 'Prod mode will hit production services. Continue?',
+    question: `${mode.label}: this mode is guarded and may hit production services. Continue?`,
     defaultValue: false,
   });
   if (!ok) {
-    throw new Error('Aborted (prod mode not confirmed).');
+    throw new Error(`Aborted (${mode.id} mode not confirmed).`);
   }
   return true;
 }
-
-
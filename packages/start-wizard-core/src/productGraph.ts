@@ -0,0 +1,65 @@
+import type { StartWizardProduct } from './startWizardConfig.js';
+
+type ProductDeps = Pick<StartWizardProduct, 'id' | 'dependsOn'>;
+
+/**
+ * Find a `dependsOn` cycle, if any.
+ *
+ * Returns the cycle as a path of product ids where the first and last entries
+ * are the same (e.g. `['api', 'worker', 'api']`), or null.
+ */
+export function findDependencyCycle(products: ProductDeps[]): string[] | null {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const current = state.get(id);
+    if (current === 'done') return null;
+    if (current === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const p of products) {
+    const cycle = visit(p.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Expand the requested products with their (transitive) `dependsOn` and return
+ * them in start order: dependencies first, otherwise in request order.
+ *
+ * Assumes the config was validated (known ids, no cycles).
+ */
+export function resolveStartOrder<T extends ProductDeps>(
+  products: T[],
+  requestedIds: string[]
+): T[] {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const ordered: T[] = [];
+  const seen = new Set<string>();
+
+  const visit = (id: string) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const product = byId.get(id);
+    if (!product) throw new Error(`Unknown product "${id}".`);
+    for (const dep of product.dependsOn ?? []) visit(dep);
+    ordered.push(product);
+  };
+
+  for (const id of requestedIds) visit(id);
+  return ordered;
+}
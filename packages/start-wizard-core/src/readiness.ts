@@ -0,0 +1,271 @@
+import http from 'node:http';
+
+import { isPortOpen, isValidPort } from './ports.js';
+
+export type StartWizardReadinessCheck =
+  | {
+      kind: 'port';
+      port: number;
+      host?: string;
+      /** Default: 60000. */
+      timeoutMs?: number;
+    }
+  | {
+      kind: 'http';
+      /** Full URL, or build one from `port`/`path`/`host`. */
+      url?: string;
+      port?: number;
+      path?: string;
+      host?: string;
+      /** Default: 60000. */
+      timeoutMs?: number;
+    }
+  | {
+      /**
+       * Wait for an output line matching `pattern`. Only sees output of
+       * children registered with piped stdout/stderr.
+       */
+      kind: 'log';
+      pattern: RegExp | string;
+      /** Default: 60000. */
+      timeoutMs?: number;
+    };
+
+/**
+ * Where `log` checks read output from (a supervisor handle fits). With
+ * `onExit`, waiting stops as soon as the process exits; `onExit` must call
+ * the listener right away if it already has.
+ */
+export type ReadinessOutputSource = {
+  onOutput: (listener: (line: string) => void) => () => void;
+  recentOutput: () => string[];
+  onExit?: (listener: (reason: string) => void) => () => void;
+};
+
+/**
+ * Readiness checks, either static or computed from the context (e.g. to use
+ * a port chosen at runtime).
+ */
+export type StartWizardReadinessSpec<Ctx> =
+  | StartWizardReadinessCheck[]
+  | ((ctx: Ctx) => StartWizardReadinessCheck[]);
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const POLL_INTERVAL_MS = 250;
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+
+/**
+ * Validate a list of readiness checks; throws with `name`-prefixed messages.
+ */
+export function validateReadinessChecks(
+  checks: unknown,
+  name: string
+): StartWizardReadinessCheck[] {
+  if (!Array.isArray(checks)) throw new Error(`${name} must be an array.`);
+  return checks.map((check, i) => {
+    const at = `${name}[${i}]`;
+    if (!check || typeof check !== 'object') throw new Error(`${at} must be an object.`);
+    const c = check as Record<string, unknown>;
+    if (c.timeoutMs !== undefined && !(typeof c.timeoutMs === 'number' && c.timeoutMs > 0)) {
+      throw new Error(`${at}.timeoutMs must be a positive number.`);
+    }
+    if (c.kind === 'port') {
+      if (!isValidPort(c.port)) throw new Error(`${at}.port must be a valid port.`);
+    } else if (c.kind === 'http') {
+      if (c.url === undefined && !isValidPort(c.port)) {
+        throw new Error(`${at} needs a url or a valid port.`);
+      }
+      if (c.url !== undefined && typeof c.url !== 'string') {
+        throw new Error(`${at}.url must be a string.`);
+      }
+    } else if (c.kind === 'log') {
+      if (!(c.pattern instanceof RegExp) && typeof c.pattern !== 'string') {
+        throw new Error(`${at}.pattern must be a RegExp or string.`);
+      }
+    } else {
+      throw new Error(`${at}.kind must be one of: port, http, log.`);
+    }
+    return check as StartWizardReadinessCheck;
+  });
+}
+
+/**
+ * Resolve a readiness spec for `ctx` and validate the result.
+ */
+export function resolveReadinessChecks<Ctx>(
+  spec: StartWizardReadinessSpec<Ctx> | undefined,
+  ctx: Ctx,
+  name: string
+): StartWizardReadinessCheck[] {
+  if (!spec) return [];
+  return validateReadinessChecks(typeof spec === 'function' ? spec(ctx) : spec, name);
+}
+
+export function describeReadinessCheck(check: StartWizardReadinessCheck): string {
+  if (check.kind === 'port') {
+    return `port ${check.host ?? 'localhost'}:${check.port}`;
+  }
+  if (check.kind === 'http') return `GET ${httpCheckUrl(check)}`;
+  return `log line matching ${String(check.pattern)}`;
+}
+
+function httpCheckUrl(
+  check: Extract<StartWizardReadinessCheck, { kind: 'http' }>
+): string {
+  if (check.url) return check.url;
+  const path = check.path ?? '/';
+  return `http://${check.host ?? '127.0.0.1'}:${check.port}${
+    path.startsWith('/') ? path : `/${path}`
+  }`;
+}
+
+function httpGetStatus(url: string, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, { timeout: timeoutMs }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on('timeout', () => req.destroy(new Error('request timed out')));
+    req.on('error', reject);
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run one check until it passes, times out or `signal` aborts.
+ * Resolves with null on success, or the last observed result on failure.
+ */
+async function runCheck(
+  check: StartWizardReadinessCheck,
+  output: ReadinessOutputSource | undefined,
+  signal: AbortSignal
+): Promise<string | null> {
+  const timeoutMs = check.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const started = Date.now();
+  if (signal.aborted) return 'aborted';
+
+  if (check.kind === 'log') {
+    if (!output) return 'no output source (register children with the supervisor)';
+    const pattern =
+      typeof check.pattern === 'string' ? new RegExp(check.pattern) : check.pattern;
+    if (output.recentOutput().some((line) => pattern.test(line))) return null;
+    return await new Promise((resolve) => {
+      const finish = (result: string | null) => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const onAbort = () => finish('aborted');
+      const timer = setTimeout(() => finish('no matching line'), timeoutMs);
+      const unsubscribe = output.onOutput((line) => {
+        if (pattern.test(line)) finish(null);
+      });
+      signal.addEventListener('abort', onAbort);
+    });
+  }
+
+  let last = 'not checked';
+  while (!signal.aborted && Date.now() - started < timeoutMs) {
+    if (check.kind === 'port') {
+      if (await isPortOpen({ host: check.host, port: check.port, timeoutMs: 500 }))
+        return null;
+      last = 'connection refused';
+    } else {
+      try {
+        const status = await httpGetStatus(httpCheckUrl(check), 2_000);
+        if (status >= 200 && status < 300) return null;
+        last = `HTTP ${status}`;
+      } catch (err) {
+        last = (err as Error)?.message ?? String(err);
+      }
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  return last;
+}
+
+function startSpinner(text: () => string): () => void {
+  if (!process.stdout.isTTY) {
+    console.log(`${text()}…`);
+    return () => undefined;
+  }
+  let frame = 0;
+  const draw = () => {
+    process.stdout.write(`\r\x1b[K${SPINNER_FRAMES[frame]} ${text()}`);
+    frame = (frame + 1) % SPINNER_FRAMES.length;
+  };
+  draw();
+  const timer = setInterval(draw, 80);
+  return () => {
+    clearInterval(timer);
+    process.stdout.write('\r\x1b[K');
+  };
+}
+
+/**
+ * Block until every readiness check passes (checks run concurrently, each
+ * with its own timeout). On the first failure the remaining checks are
+ * cancelled and this throws naming the failed check, its last result and the
+ * recent output of `output`.
+ */
+export async function waitForReadiness({
+  name,
+  checks,
+  output,
+}: {
+  name: string;
+  checks: StartWizardReadinessCheck[];
+  output?: ReadinessOutputSource;
+}): Promise<void> {
+  if (!checks.length) return;
+  const pending = new Set(checks);
+  const abort = new AbortController();
+  const stopSpinner = startSpinner(
+    () =>
+      `Waiting for ${name}: ${[...pending].map(describeReadinessCheck).join(', ')}`
+  );
+
+  const failure = (headline: string) => {
+    const lines = [headline];
+    const recent = output?.recentOutput().slice(-10) ?? [];
+    if (recent.length) {
+      lines.push('Last output:', ...recent.map((line) => `  ${line}`));
+    }
+    return new Error(lines.join('\n'));
+  };
+  let unsubscribeExit: () => void = () => undefined;
+  const exited = new Promise<never>((_resolve, reject) => {
+    const unsubscribe = output?.onExit?.((reason) => {
+      reject(failure(`${name} did not become ready: ${reason}`));
+      abort.abort();
+    });
+    if (unsubscribe) unsubscribeExit = unsubscribe;
+  });
+
+  try {
+    const checked = Promise.all(
+      checks.map(async (check) => {
+        const last = await runCheck(check, output, abort.signal);
+        pending.delete(check);
+        if (last === null || abort.signal.aborted) return;
+        abort.abort();
+        throw failure(
+          `${name} did not become ready: ${describeReadinessCheck(check)} (timed out after ${
+            check.timeoutMs ?? DEFAULT_TIMEOUT_MS
+          }ms; last result: ${last})`
+        );
+      })
+    );
+    // An exit wins over the checks it aborts.
+    checked.catch(() => undefined);
+    exited.catch(() => undefined);
+    await Promise.race([checked, exited]);
+  } finally {
+    unsubscribeExit();
+    abort.abort();
+    stopSpinner();
+  }
+  console.log(`✔ ${name} is ready`);
+}
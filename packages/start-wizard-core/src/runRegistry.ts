@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { isPidAlive, listDescendantPids, processStartTime } from './processTree.js';
+
+/** Per-repo state directory; ignores itself so it never shows up in git. */
+export const START_WIZARD_STATE_DIR = '.start-wizard';
+
+const RUNS_FILE = 'runs.json';
+
+/**
+ * One product started by a wizard run, as recorded in
+ * `.start-wizard/runs.json`.
+ */
+export type StartWizardRunRecord = {
+  productId: string;
+  mode: string;
+  /** PID of the wizard process that started the product. */
+  wizardPid: number;
+  /** PIDs the product registered with the supervisor. */
+  pids: number[];
+  /** Ports from the product's port plan (after reassignment). */
+  ports: number[];
+  /** ISO timestamp. */
+  startedAt: string;
+  /**
+   * Start time of the wizard and each recorded PID (see `processStartTime`),
+   * so a PID reused by an unrelated process is not taken for the run's.
+   * Filled in by `recordRun`.
+   */
+  pidStartTimes?: Record<string, string>;
+};
+
+export function ensureStateDir(repoRoot: string): string {
+  const dir = path.join(repoRoot, START_WIZARD_STATE_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const ignore = path.join(dir, '.gitignore');
+  if (!fs.existsSync(ignore)) fs.writeFileSync(ignore, '*\n');
+  return dir;
+}
+
+function runsPath(repoRoot: string): string {
+  return path.join(repoRoot, START_WIZARD_STATE_DIR, RUNS_FILE);
+}
+
+function isRecord(value: unknown): value is StartWizardRunRecord {
+  const r = value as StartWizardRunRecord;
+  return (
+    Boolean(r) &&
+    typeof r.productId === 'string' &&
+    typeof r.mode === 'string' &&
+    Number.isInteger(r.wizardPid) &&
+    Array.isArray(r.pids) &&
+    Array.isArray(r.ports) &&
+    typeof r.startedAt === 'string'
+  );
+}
+
+/**
+ * Whether `pid` is still the process `run` recorded: true or false when both
+ * start times are known, null when either is missing.
+ */
+function matchesRecordedStart(run: StartWizardRunRecord, pid: number): boolean | null {
+  const recorded = run.pidStartTimes?.[pid];
+  const current = recorded === undefined ? null : processStartTime(pid);
+  return recorded === undefined || current === null ? null : recorded === current;
+}
+
+/** Alive, and not known to have been reused by another process. */
+function isLiveRunPid(run: StartWizardRunRecord, pid: number): boolean {
+  return isPidAlive(pid) && matchesRecordedStart(run, pid) !== false;
+}
+
+/** True while the wizard or any of the run's processes is still alive. */
+export function isRunAlive(run: StartWizardRunRecord): boolean {
+  return isLiveRunPid(run, run.wizardPid) || run.pids.some((pid) => isLiveRunPid(run, pid));
+}
+
+/**
+ * True if `pid` (the run's wizard or one of its PIDs) is safe to signal: it
+ * is alive and has the recorded start time. A PID whose start time cannot be
+ * compared only counts while it is one of `listenerPids`, the processes now
+ * listening on the run's ports.
+ */
+export function isRecordedProcess(
+  run: StartWizardRunRecord,
+  pid: number,
+  listenerPids: readonly number[] = []
+): boolean {
+  if (!isPidAlive(pid)) return false;
+  return matchesRecordedStart(run, pid) ?? listenerPids.includes(pid);
+}
+
+function readRecords(repoRoot: string): StartWizardRunRecord[] {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(runsPath(repoRoot), 'utf8'));
+    return Array.isArray(parsed) ? parsed.filter(isRecord) : [];
+  } catch {
+    // Missing or corrupt registry: treat as empty.
+    return [];
+  }
+}
+
+function writeRecords(repoRoot: string, records: StartWizardRunRecord[]): void {
+  ensureStateDir(repoRoot);
+  const file = runsPath(repoRoot);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify(records, null, 2)}\n`);
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Runs recorded for `repoRoot` whose processes are still alive. Records of
+ * dead runs are pruned from the file, unless `prune` is false (read-only
+ * callers such as `--dry-run` and `status`).
+ */
+export function readRunRegistry(
+  repoRoot: string,
+  { prune = true }: { prune?: boolean } = {}
+): StartWizardRunRecord[] {
+  const records = readRecords(repoRoot);
+  const alive = records.filter(isRunAlive);
+  if (prune && alive.length !== records.length) writeRecords(repoRoot, alive);
+  return alive;
+}
+
+/**
+ * Add (or replace) the record for `run.productId` started by `run.wizardPid`,
+ * with the start time of each of its processes.
+ */
+export function recordRun(repoRoot: string, run: StartWizardRunRecord): void {
+  const others = readRecords(repoRoot).filter(
+    (r) =>
+      isRunAlive(r) && !(r.wizardPid === run.wizardPid && r.productId === run.productId)
+  );
+  const pidStartTimes: Record<string, string> = { ...run.pidStartTimes };
+  for (const pid of [run.wizardPid, ...run.pids]) {
+    const startTime = processStartTime(pid);
+    if (startTime !== null) pidStartTimes[pid] ??= startTime;
+  }
+  writeRecords(repoRoot, [...others, { ...run, pidStartTimes }]);
+}
+
+/**
+ * Remove the records written by the wizard process `wizardPid` (only the one
+ * for `productId`, if given).
+ */
+export function forgetRuns(repoRoot: string, wizardPid: number, productId?: string): void {
+  const records = readRecords(repoRoot);
+  const kept = records.filter(
+    (r) =>
+      r.wizardPid !== wizardPid || (productId !== undefined && r.productId !== productId)
+  );
+  if (kept.length !== records.length) writeRecords(repoRoot, kept);
+}
+
+/**
+ * The recorded run that owns a listener on `port`: its PIDs belong to the
+ * process tree of recorded PIDs, or the port is one of the run's ports while
+ * its wizard is still running (which also covers restarted children).
+ */
+export function findOwningRun(
+  runs: StartWizardRunRecord[],
+  { port, pids }: { port: number; pids: number[] }
+): StartWizardRunRecord | undefined {
+  return runs.find((run) => {
+    if (pids.length) {
+      const tree = new Set(run.pids.flatMap((pid) => [pid, ...listDescendantPids(pid)]));
+      if (pids.every((pid) => tree.has(pid))) return true;
+    }
+    return run.ports.includes(port) && isLiveRunPid(run, run.wizardPid);
+  });
+}
@@ -1,30 +1,152 @@
-export type StartWizardRunMode = 'local' | 'dev' | 'prod';
+import { START_WIZARD_FLAGS } from './commonCliArgs.js';
+import { listEnvPlaceholders, type StartWizardEnvSpec } from './envFiles.js';
+import { isValidPort } from './ports.js';
+import { findDependencyCycle } from './productGraph.js';
+import {
+  validateReadinessChecks,
+  type StartWizardReadinessSpec,
+} from './readiness.js';
+import type {
+  StartWizardRestartPolicy,
+  StartWizardSupervisor,
+} from './supervisor.js';
+
+/**
+ * Mode id, e.g. `local`, `dev`, `prod`, `staging`.
+ * Any CLI-safe id declared in `config.modes` is accepted.
+ */
+export type StartWizardRunMode = string;
 
 export type StartWizardMode = StartWizardRunMode;
 
 export type StartWizardModeSpec = {
   id: StartWizardRunMode;
   label: string;
+  /** Shown under the mode while it is highlighted in the mode prompt. */
+  description?: string;
+  /**
+   * If true, the prod guard applies: non-interactive runs require
+   * `--allow-prod`, interactive runs ask for confirmation.
+   * Defaults to `true` for `prod` and `false` otherwise.
+   */
+  guarded?: boolean;
+  /**
+   * If true, the shared `config.localStack` is started/reused for this mode.
+   * Defaults to `true` for `local` and `false` otherwise.
+   */
+  usesLocalStack?: boolean;
+  /**
+   * Pre-selected entry in the mode prompt. At most one mode may set this.
+   * Defaults to `dev` when present, else the first mode.
+   */
+  default?: boolean;
+  /** Env files and variables for every product started in this mode. */
+  env?: StartWizardEnvSpec;
 };
 
+/** Every {@link StartWizardConflictPolicy}. */
+export const START_WIZARD_CONFLICT_POLICIES = [
+  'prompt',
+  'kill',
+  'reassign',
+  'reuse',
+  'abort',
+] as const;
+
+/**
+ * What to do when a port plan entry's port is already in use:
+ * - `prompt`: ask (kill / choose a different port / abort); `--kill` kills.
+ * - `kill`: kill the listeners without asking.
+ * - `reassign`: move to a free port in the `flexible` range without asking.
+ * - `reuse`: leave the listener running and treat the port as served.
+ * - `abort`: fail the run; the listener is never killed, even with `--kill`.
+ */
+export type StartWizardConflictPolicy = (typeof START_WIZARD_CONFLICT_POLICIES)[number];
+
 export type StartWizardPortPlanEntry = {
   port: number;
   desiredService: string;
   /**
    * If true, the wizard may offer a “choose a different port” option.
+   * With `'auto'` (the 100 ports after `port`) or `{ range: [from, to] }`, it
+   * also finds a free port in that range itself, and picks it without
+   * prompting under `--yes` or without a TTY. Ranges require `optionName`.
    * If false/omitted, port conflicts must be resolved by killing or aborting.
    */
-  flexible?: boolean;
+  flexible?: boolean | 'auto' | { range: [number, number] };
+  /** Conflict policy for this port; defaults to `prompt`. */
+  onConflict?: StartWizardConflictPolicy;
+  /**
+   * Apply `onConflict` only when every listener's command matches (e.g.
+   * `/next dev/`); otherwise the conflict is prompted for as usual.
+   */
+  onConflictMatch?: RegExp | string;
   /**
    * Optional link back to a product option name.
    * If the wizard user chooses a different port for this entry, the CLI can
    * update `ctx.options[optionName]` automatically.
    */
   optionName?: string;
+  /**
+   * Address the service binds (e.g. `127.0.0.1`, `::1`, `0.0.0.0`, `::`).
+   * Only listeners on overlapping addresses count as conflicts; a listener on
+   * `127.0.0.1` does not block a service bound to `::1`. Omit to treat any
+   * listener on the port as a conflict.
+   */
+  host?: string;
+  /**
+   * Shorthand for binding all addresses of one family (`0.0.0.0` or `::`).
+   * Ignored when `host` is set.
+   */
+  family?: 4 | 6;
 };
 
 export type StartWizardProductOptionValues = Record<string, unknown>;
 
+/** What `when` conditions, computed defaults and option checks see. */
+export type StartWizardOptionContext = {
+  repoRoot: string;
+  mode: StartWizardRunMode;
+  /** Values of the options declared before this one; inactive ones are absent. */
+  options: StartWizardProductOptionValues;
+};
+
+/**
+ * When an option applies: a predicate, or `{ mode, option }` where every given
+ * key must match. `mode` lists mode ids; `option` maps earlier option names to
+ * a value, or to a list of accepted values.
+ */
+export type StartWizardOptionCondition =
+  | ((ctx: StartWizardOptionContext) => boolean)
+  | { mode?: StartWizardRunMode[]; option?: Record<string, unknown> };
+
+/** A default value, or a function computing it from the mode and earlier options. */
+export type StartWizardOptionDefault<T> = T | ((ctx: StartWizardOptionContext) => T);
+
+export type StartWizardOptionChoice = { id: string; label: string };
+
+/**
+ * Coercion and validation for an option's value, from any source (flag,
+ * environment, answers, prompt or default).
+ */
+export type StartWizardOptionChecks<T> = {
+  /** Coerce the value before it is checked, e.g. `(v) => v.trim().toLowerCase()`. */
+  transform?: (value: T, ctx: StartWizardOptionContext) => T;
+  /**
+   * Return an error message for a bad value, or null. Runs after the built-in
+   * checks (and `pattern`). Prompts ask again; other sources fail the run.
+   */
+  validate?: (value: T, ctx: StartWizardOptionContext) => string | null | undefined;
+};
+
+/**
+ * Choices computed at run time, e.g. emulator profiles read from disk. Used
+ * instead of `options`.
+ */
+export type StartWizardOptionChoicesFrom = (
+  ctx: StartWizardOptionContext
+) => StartWizardOptionChoice[] | Promise<StartWizardOptionChoice[]>;
+
 export type StartWizardOptionCommon = {
   /**
    * Logical option name used as the key in `ctx.options`.
@@ -33,44 +155,132 @@ export type StartWizardOptionCommon = {
   name: string;
   /** Optional CLI flag name without leading dashes, e.g. `port` for `--port` */
   flag?: string;
+  /**
+   * Environment variable that sets the option, e.g. `API_PORT`. A flag takes
+   * precedence over it; it takes precedence over saved answers and prompts.
+   */
+  env?: string;
   description?: string;
+  /**
+   * Only ask for (and accept) the option when this holds. Inactive options
+   * are left out of `ctx.options`, and passing their flag is an error.
+   */
+  when?: StartWizardOptionCondition;
 };
 
 export type StartWizardOptionSpec =
-  | (StartWizardOptionCommon & {
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<string> & {
       kind: 'string';
-      defaultValue?: string;
+      defaultValue?: StartWizardOptionDefault<string>;
       required?: boolean;
+      /** The value must match, e.g. `/^[a-z][a-z0-9-]*$/`. */
+      pattern?: RegExp | string;
       prompt?: { question: string; defaultValue?: string };
     })
-  | (StartWizardOptionCommon & {
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<number> & {
       kind: 'number';
-      defaultValue?: number;
+      defaultValue?: StartWizardOptionDefault<number>;
       required?: boolean;
       min?: number;
       max?: number;
       prompt?: { question: string; defaultValue?: string };
     })
-  | (StartWizardOptionCommon & {
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<boolean> & {
       kind: 'boolean';
-      defaultValue?: boolean;
+      defaultValue?: StartWizardOptionDefault<boolean>;
       prompt?: { question: string; defaultValue?: boolean };
     })
-  | (StartWizardOptionCommon & {
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<string> & {
       kind: 'select';
-      options: Array<{ id: string; label: string }>;
-      defaultId?: string;
+      /** Required unless `choicesFrom` is set. */
+      options?: StartWizardOptionChoice[];
+      choicesFrom?: StartWizardOptionChoicesFrom;
+      defaultId?: StartWizardOptionDefault<string>;
       prompt?: { title: string; defaultIndex?: number };
+    })
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<string[]> & {
+      /** Several ids; the flag takes a comma-separated list (`--platforms ios,web`). */
+      kind: 'multiselect';
+      /** Required unless `choicesFrom` is set. */
+      options?: StartWizardOptionChoice[];
+      choicesFrom?: StartWizardOptionChoicesFrom;
+      defaultIds?: StartWizardOptionDefault<string[]>;
+      /** Require at least one id. */
+      required?: boolean;
+      prompt?: { title: string };
+    })
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<string> & {
+      /** A path relative to `repoRoot`; the prompt completes it with Tab. */
+      kind: 'path';
+      defaultValue?: StartWizardOptionDefault<string>;
+      required?: boolean;
+      pattern?: RegExp | string;
+      /** Require a file or a directory; either by default. */
+      type?: 'file' | 'directory';
+      /** Set to false for paths that may not exist yet. Defaults to true. */
+      mustExist?: boolean;
+      prompt?: { question: string; defaultValue?: string };
+    })
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<string> & {
+      /**
+       * Read with masked input, usually from `env`. Never shown in summaries,
+       * saved answers or the last choices, and has no default.
+       */
+      kind: 'secret';
+      required?: boolean;
+      pattern?: RegExp | string;
+      prompt?: { question: string };
+    })
+  | (StartWizardOptionCommon &
+      StartWizardOptionChecks<number> & {
+      /**
+       * A port the option adds to the product's port plan, so conflict
+       * reassignments update it without an `optionName` mapping.
+       */
+      kind: 'port';
+      defaultValue?: StartWizardOptionDefault<number>;
+      required?: boolean;
+      /** Port plan `desiredService`; defaults to the product label and option name. */
+      service?: string;
+      flexible?: StartWizardPortPlanEntry['flexible'];
+      onConflict?: StartWizardConflictPolicy;
+      prompt?: { question: string; defaultValue?: string };
     });
 
+type WithPlainDefault<S> = S extends { kind: 'select' }
+  ? Omit<S, 'defaultId' | 'options' | 'choicesFrom'> & {
+      defaultId?: string;
+      options: StartWizardOptionChoice[];
+    }
+  : S extends { kind: 'multiselect' }
+    ? Omit<S, 'defaultIds' | 'options' | 'choicesFrom'> & {
+        defaultIds?: string[];
+        options: StartWizardOptionChoice[];
+      }
+    : S extends { kind: 'secret' }
+      ? S
+      : S extends { defaultValue?: StartWizardOptionDefault<infer T> }
+        ? Omit<S, 'defaultValue'> & { defaultValue?: T }
+        : never;
+
+/** An option spec with its computed default and `choicesFrom` evaluated. */
+export type StartWizardResolvedOptionSpec = WithPlainDefault<StartWizardOptionSpec>;
+
 export type StartWizardLocalStack = {
   /**
-   * Called by the CLI when `mode=local` and the user wants to start/restart the
-   * shared local backend stack (emulators + API).
+   * Called by the CLI when the selected mode has `usesLocalStack` and the user
+   * wants to start/restart the shared local backend stack (emulators + API).
    */
   start?: (ctx: StartWizardContext) => Promise<void> | void;
   /**
-   * Called by the CLI when `mode=local` and the user explicitly chooses restart
+   * Called by the CLI (local-stack modes) when the user explicitly chooses restart
    * or when the CLI needs to stop the shared local stack before starting fresh.
    */
   stop?: (ctx: StartWizardContext) => Promise<void> | void;
@@ -80,12 +290,30 @@ export type StartWizardLocalStack = {
    * and offer “reuse” vs “restart”.
    */
   ports?: (ctx: StartWizardContext) => StartWizardPortPlanEntry[];
+  /**
+   * If true and this run started the stack, `stop` is called when the wizard
+   * shuts down (Ctrl+C, or a supervised process exits).
+   */
+  stopOnExit?: boolean;
+  /**
+   * Opt-in auto-restart for processes `start` registers with `ctx.supervisor`.
+   */
+  restart?: StartWizardRestartPolicy;
+  /**
+   * Checks the CLI waits for after `start` (or when reusing a running stack)
+   * before starting products.
+   */
+  readiness?: StartWizardReadinessSpec<StartWizardContext>;
 };
 
 export type StartWizardContext = {
   repoRoot: string;
   productId: string;
   mode: StartWizardRunMode;
+  /**
+   * The resolved spec for `mode` (with `guarded`/`usesLocalStack` filled in).
+   */
+  modeSpec: StartWizardModeSpec;
   /**
    * Parsed common CLI args (always present).
    * Product-specific options live in `options`.
@@ -109,11 +337,30 @@ export type StartWizardContext = {
    * Any args after `--` are passed through verbatim for repo-specific start commands.
    */
   passThroughArgs: string[];
+  /**
+   * Environment for the product's processes: `process.env` merged with the
+   * mode's and the product's `env` (files and interpolated variables).
+   * Complete once port conflicts are resolved, i.e. in `start`.
+   */
+  env: NodeJS.ProcessEnv;
+  /**
+   * Register spawned children here so the wizard can forward signals, tear
+   * down process trees on exit and exit with the child's exit code:
+   * `ctx.supervisor.register(spawnNextDev(...), { name: 'web' })`.
+   */
+  supervisor: StartWizardSupervisor;
 };
 
 export type StartWizardProduct = {
   id: string;
   label: string;
+  /** Shown under the product while it is highlighted in the product prompt. */
+  description?: string;
+  /**
+   * Other product ids that must be started before this one.
+   * Starting this product also starts its (transitive) dependencies.
+   */
+  dependsOn?: string[];
   /**
    * Optional product-specific options (for flags + prompts).
    * The CLI is responsible for collecting these into `ctx.options`.
@@ -126,9 +373,33 @@ export type StartWizardProduct = {
   portPlan?: (ctx: StartWizardContext) => StartWizardPortPlanEntry[];
   /**
    * Start the product (e.g. spawn Next/Expo/custom command).
+   * Register long-running children with `ctx.supervisor`.
    * Must throw on failure (fail-fast).
    */
   start: (ctx: StartWizardContext) => Promise<void> | void;
+  /**
+   * Opt-in auto-restart: with `policy: 'on-failure'`, `start` is re-run when a
+   * supervised child of this product exits with a failure.
+   */
+  restart?: StartWizardRestartPolicy;
+  /**
+   * Checks the CLI waits for after `start` before starting dependent products
+   * (TCP port open, HTTP 2xx, or a matching log line).
+   */
+  readiness?: StartWizardReadinessSpec<StartWizardContext>;
+  /** Env files and variables for this product, applied after the mode's. */
+  env?: StartWizardEnvSpec;
+};
+
+export type StartWizardProfile = {
+  /** CLI-friendly id used with `--profile <id>`. */
+  id: string;
+  label: string;
+  /**
+   * Product ids started together. Dependencies are added automatically and
+   * everything is started in `dependsOn` order.
+   */
+  products: string[];
 };
 
 export type StartWizardConfig = {
@@ -142,7 +413,14 @@ export type StartWizardConfig = {
    */
   products: StartWizardProduct[];
   /**
-   * Optional mode definitions (labels). Defaults to local/dev/prod.
+   * Optional named sets of products to start together (`--profile <id>`).
+   */
+  profiles?: StartWizardProfile[];
+  /** Pre-selected entry in the product prompt. Defaults to the first product. */
+  defaultProduct?: string;
+  /**
+   * Optional mode definitions (ids, labels and metadata). Defaults to
+   * local/dev/prod.
    */
   modes?: StartWizardModeSpec[];
   /**
@@ -151,11 +429,11 @@ export type StartWizardConfig = {
   localStack?: StartWizardLocalStack;
 };
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
   return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
 }
 
-function assert(condition: unknown, message: string): asserts condition {
+export function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message);
 }
 
@@ -169,25 +447,86 @@ function assertId(value: unknown, name: string): asserts value is string {
   assert(/^[a-z][a-z0-9-]*$/.test(value), `${name} must match /^[a-z][a-z0-9-]*$/.`);
 }
 
+// Backwards compatible defaults for the built-in ids. Read modes through these
+// rather than the raw fields, which are optional.
+
+/** Whether the prod guard applies to `mode`; defaults to true for `prod`. */
+export function isGuardedMode(mode: Pick<StartWizardModeSpec, 'id' | 'guarded'>): boolean {
+  return mode.guarded ?? mode.id === 'prod';
+}
+
+/** Whether `mode` uses the shared local stack; defaults to true for `local`. */
+export function modeUsesLocalStack(
+  mode: Pick<StartWizardModeSpec, 'id' | 'usesLocalStack'>
+): boolean {
+  return mode.usesLocalStack ?? mode.id === 'local';
+}
+
 function validateModeSpecs(modes: unknown): StartWizardModeSpec[] {
   if (modes === undefined) {
     return [
-      { id: 'local', label: 'local (local API + emulators)' },
-      { id: 'dev', label: 'dev (cloud dev backend)' },
-      { id: 'prod', label: 'prod (cloud prod backend)' },
+      {
+        id: 'local',
+        label: 'local (local API + emulators)',
+        guarded: false,
+        usesLocalStack: true,
+        default: false,
+      },
+      {
+        id: 'dev',
+        label: 'dev (cloud dev backend)',
+        guarded: false,
+        usesLocalStack: false,
+        default: true,
+      },
+      {
+        id: 'prod',
+        label: 'prod (cloud prod backend)',
+        guarded: true,
+        usesLocalStack: false,
+        default: false,
+      },
     ];
   }
   assert(Array.isArray(modes) && modes.length > 0, 'modes must be a non-empty array.');
   const seen = new Set<string>();
-  return modes.map((m, i) => {
+  const specs = modes.map((m, i): StartWizardModeSpec => {
     assert(isPlainObject(m), `modes[${i}] must be an object.`);
     const id = m.id;
-    assert(id === 'local' || id === 'dev' || id === 'prod', `modes[${i}].id must be local|dev|prod.`);
+    assertId(id, `modes[${i}].id`);
     assertNonEmptyString(m.label, `modes[${i}].label`);
+    if (m.description !== undefined) {
+      assert(typeof m.description === 'string', `modes[${i}].description must be a string.`);
+    }
     assert(!seen.has(id), `Duplicate mode id: ${id}`);
     seen.add(id);
-    return { id, label: m.label };
+    for (const key of ['guarded', 'usesLocalStack', 'default'] as const) {
+      if (m[key] !== undefined) {
+        assert(typeof m[key] === 'boolean', `modes[${i}].${key} must be a boolean.`);
+      }
+    }
+    validateEnvSpec(m.env, `modes[${i}].env`);
+    return {
+      id,
+      label: m.label,
+      ...(m.description !== undefined && { description: m.description as string }),
+      guarded: isGuardedMode({ id, guarded: m.guarded as boolean | undefined }),
+      usesLocalStack: modeUsesLocalStack({
+        id,
+        usesLocalStack: m.usesLocalStack as boolean | undefined,
+      }),
+      default: m.default === true,
+      ...(m.env !== undefined && { env: m.env as StartWizardEnvSpec }),
+    };
   });
+
+  const defaults = specs.filter((m) => m.default);
+  assert(defaults.length <= 1, `Only one mode may set default: true (got ${defaults.map((m) => m.id).join(', ')}).`);
+  if (!defaults.length) {
+    const fallback = specs.find((m) => m.id === 'dev') ?? specs[0]!;
+    fallback.default = true;
+  }
+  return specs;
 }
 
 function validateOptionSpec(opt: unknown, idx: number): StartWizardOptionSpec {
@@ -197,36 +536,227 @@ function validateOptionSpec(opt: unknown, idx: number): StartWizardOptionSpec {
   if (flag !== undefined) {
     assertNonEmptyString(flag, `options[${idx}].flag`);
     assert(/^[a-z0-9][a-z0-9-]*$/.test(flag), `options[${idx}].flag must match /^[a-z0-9][a-z0-9-]*$/.`);
+    assert(
+      !(START_WIZARD_FLAGS as readonly string[]).includes(flag),
+      `options[${idx}].flag "--${flag}" is a start-wizard flag; pick another name.`
+    );
+  }
+  if (opt.env !== undefined) {
+    assertNonEmptyString(opt.env, `options[${idx}].env`);
+    assert(/^[A-Za-z_][A-Za-z0-9_]*$/.test(opt.env), `options[${idx}].env must be an environment variable name.`);
   }
 
+  validateOptionCondition(opt.when, `options[${idx}].when`);
+
   const kind = opt.kind;
   assert(typeof kind === 'string', `options[${idx}].kind is required.`);
+  // Computed defaults are only known at run time.
+  const defaultValue = typeof opt.defaultValue === 'function' ? undefined : opt.defaultValue;
+  for (const key of ['validate', 'transform', 'choicesFrom'] as const) {
+    if (opt[key] !== undefined) {
+      assert(typeof opt[key] === 'function', `options[${idx}].${key} must be a function.`);
+    }
+  }
+  if (opt.choicesFrom !== undefined) {
+    assert(
+      kind === 'select' || kind === 'multiselect',
+      `options[${idx}].choicesFrom only applies to select and multiselect options.`
+    );
+  }
+  if (opt.required !== undefined) {
+    assert(typeof opt.required === 'boolean', `options[${idx}].required must be a boolean.`);
+  }
+  if (opt.pattern !== undefined) {
+    assert(
+      kind === 'string' || kind === 'path' || kind === 'secret',
+      `options[${idx}].pattern only applies to string, path and secret options.`
+    );
+    const pattern = optionPattern(opt.pattern, `options[${idx}].pattern`);
+    assert(
+      typeof defaultValue !== 'string' || pattern.test(defaultValue),
+      `options[${idx}].defaultValue must match ${String(pattern)}.`
+    );
+  }
+  validateOptionPrompt(opt.prompt, kind, `options[${idx}].prompt`);
 
-  if (kind === 'string') return opt as StartWizardOptionSpec;
-  if (kind === 'number') return opt as StartWizardOptionSpec;
-  if (kind === 'boolean') return opt as StartWizardOptionSpec;
-  if (kind === 'select') {
-    const options = (opt as Record<string, unknown>).options;
-    assert(Array.isArray(options) && options.length >= 2, `options[${idx}].options must be an array (min 2).`);
-    const ids = new Set<string>();
-    for (let j = 0; j < options.length; j += 1) {
-      const entry = options[j];
-      assert(isPlainObject(entry), `options[${idx}].options[${j}] must be an object.`);
-      assertNonEmptyString(entry.id, `options[${idx}].options[${j}].id`);
-      assertNonEmptyString(entry.label, `options[${idx}].options[${j}].label`);
-      assert(!ids.has(entry.id), `options[${idx}].options has duplicate id: ${entry.id}`);
-      ids.add(entry.id);
+  if (kind === 'string') {
+    assert(
+      defaultValue === undefined || typeof defaultValue === 'string',
+      `options[${idx}].defaultValue must be a string.`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'number') {
+    const { min, max } = opt;
+    for (const [key, bound] of [['min', min], ['max', max]] as const) {
+      assert(
+        bound === undefined || (typeof bound === 'number' && Number.isFinite(bound)),
+        `options[${idx}].${key} must be a number.`
+      );
     }
+    assert(
+      min === undefined || max === undefined || (min as number) <= (max as number),
+      `options[${idx}].min must be <= max.`
+    );
+    if (defaultValue !== undefined) {
+      assert(
+        typeof defaultValue === 'number' && Number.isFinite(defaultValue),
+        `options[${idx}].defaultValue must be a number.`
+      );
+      assert(min === undefined || defaultValue >= (min as number), `options[${idx}].defaultValue must be >= ${min}.`);
+      assert(max === undefined || defaultValue <= (max as number), `options[${idx}].defaultValue must be <= ${max}.`);
+    }
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'boolean') {
+    assert(
+      defaultValue === undefined || typeof defaultValue === 'boolean',
+      `options[${idx}].defaultValue must be a boolean.`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'select') {
+    // Computed choices are checked when the wizard runs.
+    if (opt.choicesFrom && opt.options === undefined) return opt as StartWizardOptionSpec;
+    const ids = validateChoices(opt.options, idx, 2);
+    const defaultId = opt.defaultId;
+    assert(
+      defaultId === undefined ||
+        typeof defaultId === 'function' || (typeof defaultId === 'string' && ids.has(defaultId)),
+      `options[${idx}].defaultId must be one of: ${[...ids].join(', ')}.`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'multiselect') {
+    if (opt.choicesFrom && opt.options === undefined) return opt as StartWizardOptionSpec;
+    const ids = validateChoices(opt.options, idx, 1);
+    const defaultIds = opt.defaultIds;
+    assert(
+      defaultIds === undefined ||
+        typeof defaultIds === 'function' ||
+        (Array.isArray(defaultIds) && defaultIds.every((id) => ids.has(id))),
+      `options[${idx}].defaultIds must be a list of: ${[...ids].join(', ')}.`
+    );
     return opt as StartWizardOptionSpec;
   }
+  if (kind === 'path') {
+    assert(
+      defaultValue === undefined || typeof defaultValue === 'string',
+      `options[${idx}].defaultValue must be a string.`
+    );
+    assert(
+      opt.type === undefined || opt.type === 'file' || opt.type === 'directory',
+      `options[${idx}].type must be one of: file, directory.`
+    );
+    assert(
+      opt.mustExist === undefined || typeof opt.mustExist === 'boolean',
+      `options[${idx}].mustExist must be a boolean.`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'secret') {
+    assert(
+      opt.defaultValue === undefined,
+      `options[${idx}]: secret options cannot have a defaultValue (use env).`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+  if (kind === 'port') {
+    assert(
+      defaultValue === undefined || isValidPort(defaultValue),
+      `options[${idx}].defaultValue must be a port (1-65535).`
+    );
+    if (opt.service !== undefined) assertNonEmptyString(opt.service, `options[${idx}].service`);
+    const { flexible, onConflict } = opt;
+    assert(
+      flexible === undefined ||
+        typeof flexible === 'boolean' ||
+        flexible === 'auto' ||
+        (isPlainObject(flexible) &&
+          Array.isArray(flexible.range) &&
+          flexible.range.length === 2 &&
+          flexible.range.every(isValidPort) &&
+          flexible.range[0] <= flexible.range[1]),
+      `options[${idx}].flexible must be a boolean, 'auto' or { range: [from, to] }.`
+    );
+    assert(
+      onConflict === undefined ||
+        (typeof onConflict === 'string' &&
+          (START_WIZARD_CONFLICT_POLICIES as readonly string[]).includes(onConflict)),
+      `options[${idx}].onConflict must be one of: ${START_WIZARD_CONFLICT_POLICIES.join(', ')}.`
+    );
+    return opt as StartWizardOptionSpec;
+  }
+
+  throw new Error(
+    `options[${idx}].kind must be one of: string, number, boolean, select, multiselect, path, secret, port.`
+  );
+}
+
+/** `pattern` as a RegExp; a string is compiled as-is (anchor it yourself). */
+export function optionPattern(pattern: unknown, name = 'pattern'): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  assert(typeof pattern === 'string' && pattern !== '', `${name} must be a RegExp or a string.`);
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`${name} is not a valid regular expression: ${pattern}`);
+  }
+}
 
-  throw new Error(`options[${idx}].kind must be one of: string, number, boolean, select.`);
+function validateOptionPrompt(prompt: unknown, kind: string, name: string): void {
+  if (prompt === undefined) return;
+  assert(isPlainObject(prompt), `${name} must be an object.`);
+  if (kind === 'select' || kind === 'multiselect') {
+    assertNonEmptyString(prompt.title, `${name}.title`);
+    if (prompt.defaultIndex !== undefined) {
+      assert(
+        Number.isInteger(prompt.defaultIndex) && (prompt.defaultIndex as number) >= 0,
+        `${name}.defaultIndex must be a non-negative integer.`
+      );
+    }
+    return;
+  }
+  assertNonEmptyString(prompt.question, `${name}.question`);
+  const { defaultValue } = prompt;
+  if (defaultValue === undefined) return;
+  if (kind === 'boolean') {
+    assert(typeof defaultValue === 'boolean', `${name}.defaultValue must be a boolean.`);
+  } else if (kind === 'number' || kind === 'port') {
+    assert(
+      typeof defaultValue === 'string' && /^-?\d+(\.\d+)?$/.test(defaultValue.trim()),
+      `${name}.defaultValue must be a number (as a string).`
+    );
+  } else {
+    assert(typeof defaultValue === 'string', `${name}.defaultValue must be a string.`);
+  }
+}
+
+/** Validate select/multiselect choices; returns their ids. */
+function validateChoices(options: unknown, idx: number, min: number): Set<string> {
+  assert(
+    Array.isArray(options) && options.length >= min,
+    `options[${idx}].options must be an array (min ${min}).`
+  );
+  const ids = new Set<string>();
+  for (let j = 0; j < options.length; j += 1) {
+    const entry: unknown = options[j];
+    assert(isPlainObject(entry), `options[${idx}].options[${j}] must be an object.`);
+    assertNonEmptyString(entry.id, `options[${idx}].options[${j}].id`);
+    assertNonEmptyString(entry.label, `options[${idx}].options[${j}].label`);
+    assert(!ids.has(entry.id), `options[${idx}].options has duplicate id: ${entry.id}`);
+    ids.add(entry.id);
+  }
+  return ids;
 }
 
 function validateProduct(p: unknown, idx: number): StartWizardProduct {
   assert(isPlainObject(p), `products[${idx}] must be an object.`);
   assertId(p.id, `products[${idx}].id`);
   assertNonEmptyString(p.label, `products[${idx}].label`);
+  if (p.description !== undefined) {
+    assert(typeof p.description === 'string', `products[${idx}].description must be a string.`);
+  }
   assert(typeof p.start === 'function', `products[${idx}].start must be a function.`);
 
   if (p.options !== undefined) {
@@ -234,8 +764,21 @@ function validateProduct(p: unknown, idx: number): StartWizardProduct {
     const seenNames = new Set<string>();
     const seenFlags = new Set<string>();
     for (let i = 0; i < p.options.length; i += 1) {
-      const opt = validateOptionSpec(p.options[i], i);
+      let opt: StartWizardOptionSpec;
+      try {
+        opt = validateOptionSpec(p.options[i], i);
+      } catch (err) {
+        throw new Error(`Product "${p.id}": ${(err as Error).message}`);
+      }
       assert(!seenNames.has(opt.name), `Duplicate option name "${opt.name}" in product "${p.id}".`);
+      if (opt.when && typeof opt.when !== 'function') {
+        for (const name of Object.keys(opt.when.option ?? {})) {
+          assert(
+            seenNames.has(name),
+            `Product "${p.id}": options[${i}].when.option.${name} must name an earlier option.`
+          );
+        }
+      }
       seenNames.add(opt.name);
       if (opt.flag) {
         assert(!seenFlags.has(opt.flag), `Duplicate option flag "${opt.flag}" in product "${p.id}".`);
@@ -248,9 +791,161 @@ function validateProduct(p: unknown, idx: number): StartWizardProduct {
     assert(typeof p.portPlan === 'function', `products[${idx}].portPlan must be a function.`);
   }
 
+  if (p.dependsOn !== undefined) {
+    assert(Array.isArray(p.dependsOn), `products[${idx}].dependsOn must be an array.`);
+    p.dependsOn.forEach((dep, j) => assertId(dep, `products[${idx}].dependsOn[${j}]`));
+    assert(!p.dependsOn.includes(p.id), `Product "${p.id}" cannot depend on itself.`);
+  }
+
+  validateRestartPolicy(p.restart, `products[${idx}].restart`);
+  validateReadinessSpec(p.readiness, `products[${idx}].readiness`);
+  validateEnvSpec(p.env, `products[${idx}].env`);
+
   return p as StartWizardProduct;
 }
 
+function validateOptionCondition(when: unknown, name: string): void {
+  if (when === undefined || typeof when === 'function') return;
+  assert(isPlainObject(when), `${name} must be a function or an object.`);
+  for (const key of Object.keys(when)) {
+    assert(key === 'mode' || key === 'option', `${name}.${key} is not supported (use mode or option).`);
+  }
+  if (when.mode !== undefined) {
+    assert(
+      Array.isArray(when.mode) && when.mode.length > 0 && when.mode.every((m) => typeof m === 'string'),
+      `${name}.mode must be a non-empty array of mode ids.`
+    );
+  }
+  if (when.option !== undefined) {
+    assert(isPlainObject(when.option), `${name}.option must map option names to values.`);
+  }
+}
+
+function validateOptionModes(products: StartWizardProduct[], modes: StartWizardModeSpec[]): void {
+  const ids = new Set(modes.map((m) => m.id));
+  for (const product of products) {
+    for (const opt of product.options ?? []) {
+      if (!opt.when || typeof opt.when === 'function') continue;
+      for (const mode of opt.when.mode ?? []) {
+        assert(
+          ids.has(mode),
+          `Product "${product.id}": option "${opt.name}" has when.mode "${mode}", which is not a mode.`
+        );
+      }
+    }
+  }
+}
+
+function validateRestartPolicy(restart: unknown, name: string): void {
+  if (restart === undefined) return;
+  assert(isPlainObject(restart), `${name} must be an object.`);
+  assert(
+    restart.policy === 'on-failure' || restart.policy === 'never',
+    `${name}.policy must be one of: on-failure, never.`
+  );
+  for (const key of ['maxRestarts', 'backoffMs', 'maxBackoffMs', 'stableAfterMs'] as const) {
+    const value = restart[key];
+    if (value === undefined) continue;
+    assert(
+      typeof value === 'number' && Number.isFinite(value) && value >= 0,
+      `${name}.${key} must be a non-negative number.`
+    );
+  }
+}
+
+function validateReadinessSpec(readiness: unknown, name: string): void {
+  if (readiness === undefined || typeof readiness === 'function') return;
+  validateReadinessChecks(readiness, name);
+}
+
+function validateEnvSpec(env: unknown, name: string): void {
+  if (env === undefined) return;
+  assert(isPlainObject(env), `${name} must be an object.`);
+  if (env.files !== undefined) {
+    assert(
+      Array.isArray(env.files) && env.files.every((f) => typeof f === 'string' && f !== ''),
+      `${name}.files must be an array of paths.`
+    );
+  }
+  if (env.vars !== undefined) {
+    assert(isPlainObject(env.vars), `${name}.vars must be an object.`);
+    for (const [key, value] of Object.entries(env.vars)) {
+      assert(/^[A-Za-z_][A-Za-z0-9_]*$/.test(key), `${name}.vars: "${key}" is not a valid variable name.`);
+      assert(typeof value === 'string', `${name}.vars.${key} must be a string.`);
+    }
+  }
+}
+
+/**
+ * Check `${ports.<id>}` and `${options.<name>}` in env specs against the
+ * products and their options, so a typo fails before any port is touched. A
+ * mode's env is resolved for every product, so its options must exist on all.
+ */
+function validateEnvPlaceholders(products: StartWizardProduct[], modes: StartWizardModeSpec[]): void {
+  const ids = new Set(products.map((p) => p.id));
+  const check = (env: StartWizardEnvSpec | undefined, name: string, owners: StartWizardProduct[]) => {
+    if (!env) return;
+    let placeholders;
+    try {
+      placeholders = listEnvPlaceholders(env);
+    } catch (err) {
+      throw new Error(`${name}: ${(err as Error).message}`);
+    }
+    for (const { placeholder, scope, name: ref } of placeholders) {
+      if (scope === 'ports') {
+        assert(ids.has(ref!), `${name}: ${placeholder} refers to unknown product "${ref}".`);
+      }
+      if (scope === 'options') {
+        for (const owner of owners) {
+          assert(
+            owner.options?.some((o) => o.name === ref),
+            `${name}: ${placeholder}: product "${owner.id}" has no option "${ref}".`
+          );
+        }
+      }
+    }
+  };
+  modes.forEach((m, i) => check(m.env, `modes[${i}].env`, products));
+  products.forEach((p, i) => check(p.env, `products[${i}].env`, [p]));
+}
+
+function validateDependencies(products: StartWizardProduct[]): void {
+  const ids = new Set(products.map((p) => p.id));
+  assert(ids.size === products.length, 'config.products contains duplicate ids.');
+  for (const p of products) {
+    for (const dep of p.dependsOn ?? []) {
+      assert(ids.has(dep), `Product "${p.id}" depends on unknown product "${dep}".`);
+    }
+  }
+  const cycle = findDependencyCycle(products);
+  assert(!cycle, `Dependency cycle detected: ${cycle?.join(' -> ')}`);
+}
+
+function validateProfiles(profiles: unknown, products: StartWizardProduct[]): StartWizardProfile[] | undefined {
+  if (profiles === undefined) return undefined;
+  assert(Array.isArray(profiles), 'config.profiles must be an array.');
+  const productIds = new Set(products.map((p) => p.id));
+  const seen = new Set<string>();
+  return profiles.map((profile, i) => {
+    assert(isPlainObject(profile), `profiles[${i}] must be an object.`);
+    assertId(profile.id, `profiles[${i}].id`);
+    assertNonEmptyString(profile.label, `profiles[${i}].label`);
+    assert(!seen.has(profile.id), `Duplicate profile id: ${profile.id}`);
+    seen.add(profile.id);
+    assert(
+      Array.isArray(profile.products) && profile.products.length > 0,
+      `profiles[${i}].products must be a non-empty array.`
+    );
+    for (const id of profile.products) {
+      assert(
+        typeof id === 'string' && productIds.has(id),
+        `Profile "${profile.id}" references unknown product "${String(id)}".`
+      );
+    }
+    return profile as StartWizardProfile;
+  });
+}
+
 function validateConfigOrThrow(config: unknown): StartWizardConfig {
   assert(isPlainObject(config), 'Config must be an object.');
   const version = config.version;
@@ -260,8 +955,18 @@ function validateConfigOrThrow(config: unknown): StartWizardConfig {
 
   assert(Array.isArray(config.products) && config.products.length > 0, 'config.products must be a non-empty array.');
   const products = config.products.map((p, i) => validateProduct(p, i));
+  validateDependencies(products);
+  const profiles = validateProfiles(config.profiles, products);
+  if (config.defaultProduct !== undefined) {
+    assert(
+      products.some((p) => p.id === config.defaultProduct),
+      `config.defaultProduct references unknown product "${String(config.defaultProduct)}".`
+    );
+  }
 
   const modes = validateModeSpecs(config.modes);
+  validateOptionModes(products, modes);
+  validateEnvPlaceholders(products, modes);
 
   if (config.localStack !== undefined) {
     assert(isPlainObject(config.localStack), 'config.localStack must be an object.');
@@ -274,11 +979,18 @@ function validateConfigOrThrow(config: unknown): StartWizardConfig {
     if (config.localStack.ports !== undefined) {
       assert(typeof config.localStack.ports === 'function', 'config.localStack.ports must be a function.');
     }
+    if (config.localStack.stopOnExit !== undefined) {
+      assert(typeof config.localStack.stopOnExit === 'boolean', 'config.localStack.stopOnExit must be a boolean.');
+    }
+    validateRestartPolicy(config.localStack.restart, 'config.localStack.restart');
+    validateReadinessSpec(config.localStack.readiness, 'config.localStack.readiness');
   }
 
   return {
     version: 1,
     products,
+    profiles,
+    defaultProduct: config.defaultProduct as string | undefined,
     modes,
     localStack: config.localStack as StartWizardLocalStack | undefined,
   };
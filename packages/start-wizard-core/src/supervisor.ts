@@ -0,0 +1,479 @@
+import os from 'node:os';
+
+import { isPidAlive, listDescendantPids } from './processTree.js';
+
+const FORWARDED_SIGNALS = ['SIGINT', 'SIGTERM', 'SIGHUP'] as const;
+const LOG_TAIL_LINES = 20;
+const CRASH_SUMMARY_LINES = 10;
+
+export type StartWizardRestartPolicy = {
+  /** `on-failure` re-runs `start` after a non-zero exit or a crash signal. */
+  policy: 'on-failure' | 'never';
+  /**
+   * Give up after this many consecutive fast crashes (crash loop).
+   * Default: 5.
+   */
+  maxRestarts?: number;
+  /**
+   * Delay before the first restart; doubles on each consecutive restart.
+   * Default: 1000.
+   */
+  backoffMs?: number;
+  /** Upper bound for the backoff delay. Default: 30000. */
+  maxBackoffMs?: number;
+  /**
+   * A run that lasted at least this long resets the restart counter and
+   * backoff. Default: 30000.
+   */
+  stableAfterMs?: number;
+};
+
+/**
+ * Time source used by the supervisor (injectable for tests).
+ */
+export type SupervisorClock = {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+};
+
+/**
+ * OS process operations used by the supervisor (injectable for tests).
+ */
+export type SupervisorProcessApi = {
+  isAlive: (pid: number) => boolean;
+  listDescendants: (pid: number) => number[];
+  kill: (pid: number, signal: NodeJS.Signals) => void;
+};
+
+/**
+ * The parts of a `ChildProcess` the supervisor relies on.
+ */
+export type SupervisedProcess = {
+  pid?: number;
+  once(
+    event: 'exit',
+    listener: (code: number | null, signal: NodeJS.Signals | null) => void
+  ): unknown;
+  stdout?: NodeJS.ReadableStream | null;
+  stderr?: NodeJS.ReadableStream | null;
+};
+
+export const systemClock: SupervisorClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export const systemProcessApi: SupervisorProcessApi = {
+  isAlive: isPidAlive,
+  listDescendants: listDescendantPids,
+  kill: (pid, signal) => {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // ignore (already gone / not permitted)
+    }
+  },
+};
+
+export type StartWizardSupervisor = {
+  /**
+   * Hand a spawned child to the wizard. When a registered child exits, the
+   * others are torn down and the wizard exits with that child's exit code,
+   * unless the owning product has a `restart` policy.
+   * Returns the child for chaining.
+   */
+  register: <T extends SupervisedProcess>(
+    child: T,
+    opts?: { name?: string }
+  ) => T;
+  /**
+   * Create a handle whose registered children belong to a restartable unit
+   * (a product or the local stack). `start` is re-run after a failure when
+   * `restart.policy` is `on-failure`.
+   */
+  unit: (opts: {
+    name: string;
+    restart?: StartWizardRestartPolicy;
+    start: () => Promise<void> | void;
+  }) => StartWizardSupervisor;
+  /**
+   * Stop every registered process tree (signal, grace period, SIGKILL), run
+   * `onShutdown`, and resolve with the exit code. Safe to call repeatedly.
+   */
+  shutdown: (opts?: {
+    exitCode?: number;
+    reason?: string;
+    signal?: NodeJS.Signals;
+  }) => Promise<number>;
+  /**
+   * Resolve with the exit code once everything has been shut down.
+   * Resolves with 0 right away if nothing was registered.
+   * Rejects if a unit was given up on (crash loop or failed restart).
+   */
+  wait: () => Promise<number>;
+  /** Currently running children, with the unit (e.g. product id) that owns them. */
+  list: () => Array<{ name: string; unit: string; pid?: number }>;
+  /**
+   * Subscribe to output lines of this handle's children (piped stdout/stderr
+   * only; `stdio: 'inherit'` output is not visible). Returns an unsubscribe.
+   */
+  onOutput: (listener: (line: string) => void) => () => void;
+  /** The most recent output lines of this handle's children. */
+  recentOutput: () => string[];
+  /**
+   * Subscribe to this handle's unit stopping for good: a child exited and no
+   * restart follows (or restarting was given up). If it already has, the
+   * listener is called right away. Returns an unsubscribe.
+   */
+  onExit: (listener: (reason: string) => void) => () => void;
+};
+
+type Unit = {
+  name: string;
+  restart?: Required<StartWizardRestartPolicy>;
+  start?: () => Promise<void> | void;
+  restarts: number;
+  startedAt: number;
+  logTail: string[];
+  outputListeners: Set<(line: string) => void>;
+  exitListeners: Set<(reason: string) => void>;
+  /** Set once the unit has stopped for good. */
+  exitReason?: string;
+};
+
+function exitCodeForSignal(signal: NodeJS.Signals): number {
+  return 128 + (os.constants.signals[signal] ?? 0);
+}
+
+function normalizeRestartPolicy(
+  restart: StartWizardRestartPolicy | undefined
+): Required<StartWizardRestartPolicy> | undefined {
+  if (!restart || restart.policy !== 'on-failure') return undefined;
+  return {
+    policy: 'on-failure',
+    maxRestarts: restart.maxRestarts ?? 5,
+    backoffMs: restart.backoffMs ?? 1_000,
+    maxBackoffMs: restart.maxBackoffMs ?? 30_000,
+    stableAfterMs: restart.stableAfterMs ?? 30_000,
+  };
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1_000 ? `${ms}ms` : `${(ms / 1_000).toFixed(1)}s`;
+}
+
+function captureOutput(stream: NodeJS.ReadableStream | null | undefined, unit: Unit) {
+  if (!stream) return;
+  let partial = '';
+  stream.on('data', (chunk: Buffer | string) => {
+    const lines = (partial + String(chunk)).split(/\r?\n/);
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      unit.logTail.push(line);
+      for (const listener of unit.outputListeners) listener(line);
+    }
+    const tail = unit.logTail;
+    if (tail.length > LOG_TAIL_LINES) tail.splice(0, tail.length - LOG_TAIL_LINES);
+  });
+}
+
+/**
+ * Create the process supervisor that owns everything products spawn.
+ *
+ * - Forwards SIGINT/SIGTERM/SIGHUP to registered children (a second signal
+ *   skips the grace period).
+ * - Kills whole process trees, escalating to SIGKILL after `graceMs`.
+ * - Restarts units with an `on-failure` policy, with exponential backoff and
+ *   crash-loop detection.
+ * - Calls `onShutdown` (e.g. `localStack.stop`) once children are gone.
+ */
+export function createSupervisor({
+  graceMs = 5_000,
+  onShutdown,
+  log = (line: string) => console.log(line),
+  clock = systemClock,
+  processes = systemProcessApi,
+  handleSignals = true,
+}: {
+  graceMs?: number;
+  onShutdown?: () => Promise<void> | void;
+  log?: (line: string) => void;
+  clock?: SupervisorClock;
+  processes?: SupervisorProcessApi;
+  /** Install process signal handlers on first register (default: true). */
+  handleSignals?: boolean;
+} = {}): StartWizardSupervisor {
+  const children = new Map<SupervisedProcess, { name: string; unit: Unit }>();
+  const signalHandlers = new Map<NodeJS.Signals, () => void>();
+  const defaultUnit: Unit = {
+    name: 'default',
+    restarts: 0,
+    startedAt: clock.now(),
+    logTail: [],
+    outputListeners: new Set(),
+    exitListeners: new Set(),
+  };
+  let pendingRestarts = 0;
+  let shuttingDown: Promise<number> | null = null;
+  let failure: Error | null = null;
+  let resolveWait: (code: number) => void = () => {
+    // replaced below
+  };
+  const waitPromise = new Promise<number>((resolve) => {
+    resolveWait = resolve;
+  });
+
+  const treePids = (only?: (unit: Unit) => boolean): number[] =>
+    [...children.entries()].flatMap(([child, meta]) =>
+      child.pid && (!only || only(meta.unit))
+        ? [child.pid, ...processes.listDescendants(child.pid)]
+        : []
+    );
+
+  const signalPids = (pids: number[], signal: NodeJS.Signals) => {
+    for (const pid of pids) processes.kill(pid, signal);
+  };
+
+  const waitUntil = async (
+    condition: () => boolean,
+    timeoutMs: number
+  ): Promise<boolean> => {
+    const started = clock.now();
+    while (clock.now() - started < timeoutMs) {
+      if (condition()) return true;
+      await clock.sleep(50);
+    }
+    return condition();
+  };
+
+  /**
+   * Stop the process trees matching `only` (all by default): `signal`, then
+   * SIGKILL after the grace period.
+   */
+  const stopTrees = async (
+    signal: NodeJS.Signals,
+    only?: (unit: Unit) => boolean
+  ) => {
+    // Snapshot the trees first: once a parent dies its children are
+    // re-parented and can no longer be found.
+    const pids = treePids(only);
+    const owned = () =>
+      [...children.values()].some((meta) => !only || only(meta.unit));
+    // Registered children count as gone once their `exit` event fired.
+    const allGone = () =>
+      !owned() && !pids.some((pid) => processes.isAlive(pid));
+    signalPids(pids, signal);
+    if (!(await waitUntil(allGone, graceMs))) {
+      signalPids(
+        pids.filter((pid) => processes.isAlive(pid)),
+        'SIGKILL'
+      );
+      await waitUntil(allGone, 1_000);
+    }
+  };
+
+  const installSignalHandlers = () => {
+    if (!handleSignals || signalHandlers.size) return;
+    for (const signal of FORWARDED_SIGNALS) {
+      const handler = () => {
+        if (shuttingDown) {
+          signalPids(treePids(), 'SIGKILL');
+          return;
+        }
+        void shutdown({
+          exitCode: exitCodeForSignal(signal),
+          reason: `Received ${signal}`,
+          signal,
+        });
+      };
+      signalHandlers.set(signal, handler);
+      process.on(signal, handler);
+    }
+  };
+
+  const removeSignalHandlers = () => {
+    for (const [signal, handler] of signalHandlers) {
+      process.removeListener(signal, handler);
+    }
+    signalHandlers.clear();
+  };
+
+  const shutdown: StartWizardSupervisor['shutdown'] = ({
+    exitCode = 0,
+    reason,
+    signal = 'SIGTERM',
+  } = {}) => {
+    if (shuttingDown) return shuttingDown;
+    shuttingDown = (async () => {
+      if (reason) {
+        log(`\n${reason}; stopping ${children.size} process(es)…`);
+      }
+      await stopTrees(signal);
+      try {
+        await onShutdown?.();
+      } catch (err) {
+        log(`Cleanup failed: ${(err as Error)?.message ?? String(err)}`);
+      }
+      removeSignalHandlers();
+      resolveWait(exitCode);
+      return exitCode;
+    })();
+    return shuttingDown;
+  };
+
+  const notifyExit = (unit: Unit, reason: string) => {
+    unit.exitReason ??= reason;
+    for (const listener of unit.exitListeners) listener(reason);
+  };
+
+  const giveUp = (unit: Unit, message: string, exitCode: number) => {
+    notifyExit(unit, message);
+    failure = new Error(message);
+    void shutdown({ exitCode, reason: message });
+  };
+
+  const printCrashSummary = (unit: Unit, status: string, ranMs: number) => {
+    log(`\n✖ ${unit.name} exited (${status}) after ${formatDuration(ranMs)}`);
+    const lines = unit.logTail.slice(-CRASH_SUMMARY_LINES);
+    if (lines.length) {
+      log('  Last output:');
+      for (const line of lines) log(`    ${line}`);
+    }
+  };
+
+  const restartUnit = async (unit: Unit, exitCode: number) => {
+    const policy = unit.restart!;
+    // Other children of the same unit would hold ports/files; stop them first.
+    await stopTrees('SIGTERM', (u) => u === unit);
+    if (shuttingDown) return;
+
+    if (unit.restarts >= policy.maxRestarts) {
+      giveUp(
+        unit,
+        `${unit.name} is crash-looping (${unit.restarts} restarts, each failing within ${formatDuration(policy.stableAfterMs)}); giving up.`,
+        exitCode
+      );
+      return;
+    }
+    unit.restarts += 1;
+    const delay = Math.min(
+      policy.backoffMs * 2 ** (unit.restarts - 1),
+      policy.maxBackoffMs
+    );
+    log(
+      `↻ Restarting ${unit.name} in ${formatDuration(delay)} (restart ${unit.restarts}/${policy.maxRestarts})…`
+    );
+    await clock.sleep(delay);
+    if (shuttingDown) return;
+
+    unit.logTail.length = 0;
+    try {
+      await unit.start!();
+    } catch (err) {
+      giveUp(
+        unit,
+        `Failed to restart ${unit.name}: ${(err as Error)?.message ?? String(err)}`,
+        exitCode
+      );
+    }
+  };
+
+  const onChildExit = (
+    child: SupervisedProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ) => {
+    const meta = children.get(child);
+    children.delete(child);
+    if (!meta || shuttingDown) return;
+    const { unit, name } = meta;
+    const exitCode = code ?? (signal ? exitCodeForSignal(signal) : 1);
+    const status = signal ?? `code ${code}`;
+    const failed = exitCode !== 0;
+
+    if (!failed || !unit.restart || !unit.start) {
+      notifyExit(unit, `${name} exited (${status})`);
+      if (failed && unit.logTail.length) {
+        printCrashSummary(unit, status, clock.now() - unit.startedAt);
+      }
+      void shutdown({ exitCode, reason: `${name} exited (${status})` });
+      return;
+    }
+
+    const ranMs = clock.now() - unit.startedAt;
+    if (ranMs >= unit.restart.stableAfterMs) unit.restarts = 0;
+    printCrashSummary(unit, status, ranMs);
+    pendingRestarts += 1;
+    void restartUnit(unit, exitCode).finally(() => {
+      pendingRestarts -= 1;
+    });
+  };
+
+  const registerIn =
+    (unit: Unit): StartWizardSupervisor['register'] =>
+    (child, opts = {}) => {
+      const name =
+        opts.name ??
+        (unit === defaultUnit ? `pid ${child.pid ?? '?'}` : unit.name);
+      // The first child of a (re)start marks the start of the run.
+      if (![...children.values()].some((meta) => meta.unit === unit)) {
+        unit.startedAt = clock.now();
+      }
+      children.set(child, { name, unit });
+      captureOutput(child.stdout, unit);
+      captureOutput(child.stderr, unit);
+      installSignalHandlers();
+      child.once('exit', (code: number | null, signal: NodeJS.Signals | null) =>
+        onChildExit(child, code, signal)
+      );
+      return child;
+    };
+
+  const handleFor = (unit: Unit): StartWizardSupervisor => ({
+    register: registerIn(unit),
+    unit: ({ name, restart, start }) =>
+      handleFor({
+        name,
+        restart: normalizeRestartPolicy(restart),
+        start,
+        restarts: 0,
+        startedAt: clock.now(),
+        logTail: [],
+        outputListeners: new Set(),
+        exitListeners: new Set(),
+      }),
+    shutdown,
+    wait: async () => {
+      if (!shuttingDown && !children.size && !pendingRestarts) return 0;
+      const code = await waitPromise;
+      if (failure) throw failure;
+      return code;
+    },
+    list: () =>
+      [...children.entries()].map(([child, meta]) => ({
+        name: meta.name,
+        unit: meta.unit.name,
+        pid: child.pid,
+      })),
+    onOutput: (listener) => {
+      unit.outputListeners.add(listener);
+      return () => {
+        unit.outputListeners.delete(listener);
+      };
+    },
+    recentOutput: () => [...unit.logTail],
+    onExit: (listener) => {
+      if (unit.exitReason !== undefined) {
+        listener(unit.exitReason);
+        return () => undefined;
+      }
+      unit.exitListeners.add(listener);
+      return () => {
+        unit.exitListeners.delete(listener);
+      };
+    },
+  });
+
+  return handleFor(defaultUnit);
+}
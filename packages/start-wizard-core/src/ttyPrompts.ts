@@ -1,3 +1,5 @@
+import fs from 'node:fs';
+import path from 'node:path';
 import readline from 'node:readline';
 
 function isInteractive(): boolean {
@@ -31,38 +33,63 @@ function renderSelect({
   return lines.join('\n');
 }
 
-function clearScreen(): void {
-  // ANSI clear screen + cursor to top-left
-  process.stdout.write('\x1b[2J\x1b[0;0H');
-}
-
-/**
- * Arrow-key select prompt.
- *
- * - Requires TTY.
- * - Returns the selected option object, or null on Ctrl+C.
- */
-export async function selectPrompt({
+function renderMultiSelect({
   title,
   options,
-  defaultIndex = 0,
-  hint = 'Use ↑/↓ and Enter.',
+  selectedIndex,
+  checked,
+  hint,
 }: {
   title: string;
   options: SelectPromptOption[];
-  defaultIndex?: number;
+  selectedIndex: number;
+  checked: Set<number>;
   hint?: string;
-}): Promise<SelectPromptOption | null> {
-  if (!isInteractive()) {
-    throw new Error(`Cannot prompt without a TTY: ${title}`);
+}): string {
+  const lines: string[] = [];
+  lines.push(title);
+  lines.push('');
+  for (let i = 0; i < options.length; i += 1) {
+    const prefix = i === selectedIndex ? '❯' : ' ';
+    const box = checked.has(i) ? '◉' : '◯';
+    lines.push(`${prefix} ${box} ${options[i]?.label ?? String(options[i])}`);
   }
-  if (!Array.isArray(options) || options.length < 2) {
-    throw new Error('selectPrompt requires at least 2 options.');
+  if (hint) {
+    lines.push('');
+    lines.push(hint);
   }
-  const normalizedDefaultIndex =
-    defaultIndex >= 0 && defaultIndex < options.length ? defaultIndex : 0;
-  let selectedIndex = normalizedDefaultIndex;
+  return lines.join('\n');
+}
+
+function clearScreen(): void {
+  // ANSI clear screen + cursor to top-left
+  process.stdout.write('\x1b[2J\x1b[0;0H');
+}
 
+/** Terminal rows `text` takes, counting wrapped lines. */
+function countRows(text: string): number {
+  const width = process.stdout.columns || 80;
+  return text
+    .split('\n')
+    .reduce((rows, line) => rows + Math.max(1, Math.ceil(line.length / width)), 0);
+}
+
+/**
+ * Shared raw-mode keypress loop for full-screen prompts.
+ *
+ * `onKeypress` returns true when the screen should be redrawn; it calls `done`
+ * to resolve the prompt. Ctrl+C resolves with null (exit code 130).
+ */
+async function runKeypressPrompt<T>({
+  render,
+  onKeypress,
+  inPlace = false,
+}: {
+  render: () => string;
+  onKeypress: (key: readline.Key, done: (value: T) => void) => boolean;
+  /** Replace the previous render in place instead of clearing the screen. */
+  inPlace?: boolean;
+}): Promise<T | null> {
   // Important: readline-based prompts (like `inputPrompt`) can leave stdin paused after `rl.close()`.
   // If stdin remains paused, no keypress events will fire and the process may appear to “drop back”
   // to the shell immediately after rendering.
@@ -74,31 +101,28 @@ export async function selectPrompt({
   process.stdin.setRawMode(true);
   if (wasPaused) process.stdin.resume();
 
-  const onKeypress = (_str: string, key: readline.Key) => {
+  let resolvePromise: (value: T | null) => void = () => {
+    // replaced before use
+  };
+  let renderedRows = 0;
+  const draw = () => {
+    const text = render();
+    if (!inPlace) clearScreen();
+    // Back to the first row of the previous render, then clear below.
+    else if (renderedRows) process.stdout.write(`\x1b[${renderedRows}F\x1b[J`);
+    process.stdout.write(`${text}\n`);
+    renderedRows = countRows(text);
+  };
+
+  const handleKeypress = (_str: string, key: readline.Key) => {
     if (!key) return;
-    if (key.name === 'up') {
-      selectedIndex = (selectedIndex - 1 + options.length) % options.length;
-    } else if (key.name === 'down') {
-      selectedIndex = (selectedIndex + 1) % options.length;
-    } else if (key.name === 'return') {
-      resolvePromise(options[selectedIndex] ?? null);
-      return;
-    } else if (key.name === 'c' && key.ctrl) {
+    if (key.name === 'c' && key.ctrl) {
       process.exitCode = 130;
       resolvePromise(null);
       return;
-    } else {
-      return;
     }
-
-    clearScreen();
-    process.stdout.write(
-      `${renderSelect({ title, options, selectedIndex, hint })}\n`
-    );
-  };
-
-  let resolvePromise: (value: SelectPromptOption | null) => void = () => {
-    // replaced before use
+    if (!onKeypress(key, (value) => resolvePromise(value))) return;
+    draw();
   };
 
   const cleanup = () => {
@@ -108,25 +132,313 @@ export async function selectPrompt({
     } catch {
       // ignore
     }
-    process.stdin.removeListener('keypress', onKeypress);
+    process.stdin.removeListener('keypress', handleKeypress);
     if (wasPaused) process.stdin.pause();
   };
 
   try {
-    clearScreen();
-    process.stdout.write(
-      `${renderSelect({ title, options, selectedIndex, hint })}\n`
-    );
+    draw();
 
     return await new Promise((resolve) => {
       resolvePromise = resolve;
-      process.stdin.on('keypress', onKeypress);
+      process.stdin.on('keypress', handleKeypress);
     });
   } finally {
     cleanup();
   }
 }
 
+/**
+ * Arrow-key select prompt.
+ *
+ * - Requires TTY.
+ * - Returns the selected option object, or null on Ctrl+C.
+ */
+export async function selectPrompt({
+  title,
+  options,
+  defaultIndex = 0,
+  hint = 'Use ↑/↓ and Enter.',
+}: {
+  title: string;
+  options: SelectPromptOption[];
+  defaultIndex?: number;
+  hint?: string;
+}): Promise<SelectPromptOption | null> {
+  if (!isInteractive()) {
+    throw new Error(`Cannot prompt without a TTY: ${title}`);
+  }
+  if (!Array.isArray(options) || options.length < 2) {
+    throw new Error('selectPrompt requires at least 2 options.');
+  }
+  const normalizedDefaultIndex =
+    defaultIndex >= 0 && defaultIndex < options.length ? defaultIndex : 0;
+  let selectedIndex = normalizedDefaultIndex;
+
+  return await runKeypressPrompt<SelectPromptOption | null>({
+    render: () => renderSelect({ title, options, selectedIndex, hint }),
+    onKeypress: (key, done) => {
+      if (key.name === 'up') {
+        selectedIndex = (selectedIndex - 1 + options.length) % options.length;
+        return true;
+      }
+      if (key.name === 'down') {
+        selectedIndex = (selectedIndex + 1) % options.length;
+        return true;
+      }
+      if (key.name === 'return') {
+        done(options[selectedIndex] ?? null);
+      }
+      return false;
+    },
+  });
+}
+
+export type SearchSelectPromptOption = SelectPromptOption & {
+  /** Shown under the entry while it is highlighted. */
+  description?: string;
+  /** Why the entry cannot be picked, e.g. `requires local mode`. */
+  disabled?: string;
+};
+
+/**
+ * How well `query` matches `text`, lower is better; null when the query's
+ * characters do not all appear in order. Substring matches rank before
+ * scattered ones, and earlier or tighter matches before later ones.
+ */
+export function fuzzyMatchScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  const at = t.indexOf(q);
+  if (at >= 0) return at;
+  let score = 1_000;
+  let from = 0;
+  for (const ch of q) {
+    const next = t.indexOf(ch, from);
+    if (next < 0) return null;
+    score += next - from;
+    from = next + 1;
+  }
+  return score;
+}
+
+function renderSearchSelect({
+  title,
+  query,
+  matches,
+  selectedIndex,
+  top,
+  pageSize,
+  error,
+  hint,
+}: {
+  title: string;
+  query: string;
+  matches: SearchSelectPromptOption[];
+  selectedIndex: number;
+  top: number;
+  pageSize: number;
+  error: string | null;
+  hint?: string;
+}): string {
+  const lines = [title, `Filter: ${query}`, ''];
+  if (!matches.length) lines.push('  No matches.');
+  if (top > 0) lines.push(`  ↑ ${top} more`);
+  for (let i = top; i < Math.min(matches.length, top + pageSize); i += 1) {
+    const option = matches[i]!;
+    const prefix = i === selectedIndex ? '❯' : ' ';
+    // Number keys pick visible entries while the filter is empty.
+    const number = !query && i - top < 9 ? `${i - top + 1}. ` : '';
+    const disabled = option.disabled ? ` (${option.disabled})` : '';
+    lines.push(`${prefix} ${number}${option.label}${disabled}`);
+    if (i === selectedIndex && option.description) lines.push(`    ${option.description}`);
+  }
+  const below = matches.length - top - pageSize;
+  if (below > 0) lines.push(`  ↓ ${below} more`);
+  if (error) lines.push('', error);
+  if (hint) lines.push('', hint);
+  return lines.join('\n');
+}
+
+/**
+ * Select prompt for long lists: typing filters the options (fuzzy, on label
+ * and id).
+ *
+ * - Requires TTY.
+ * - ↑/↓ move, PgUp/PgDn move a page, Home/End jump to the ends. Backspace
+ *   edits the filter and Esc clears it.
+ * - While the filter is empty, 1-9 pick the numbered entries.
+ * - Disabled entries show their reason and cannot be picked.
+ * - Returns the selected option object, or null on Ctrl+C.
+ */
+export async function searchSelectPrompt({
+  title,
+  options,
+  defaultIndex = 0,
+  pageSize = 10,
+  hint = 'Type to filter. Use ↑/↓, PgUp/PgDn, Home/End and Enter.',
+}: {
+  title: string;
+  options: SearchSelectPromptOption[];
+  defaultIndex?: number;
+  /** Entries shown at once. */
+  pageSize?: number;
+  hint?: string;
+}): Promise<SearchSelectPromptOption | null> {
+  if (!isInteractive()) {
+    throw new Error(`Cannot prompt without a TTY: ${title}`);
+  }
+  if (!Array.isArray(options) || !options.some((o) => !o.disabled)) {
+    throw new Error('searchSelectPrompt requires at least 1 enabled option.');
+  }
+  let query = '';
+  let matches = options;
+  let selectedIndex = defaultIndex >= 0 && defaultIndex < options.length ? defaultIndex : 0;
+  let top = 0;
+  let error: string | null = null;
+
+  const move = (index: number) => {
+    selectedIndex = Math.max(0, Math.min(matches.length - 1, index));
+    // Keep the highlighted entry inside the visible page.
+    if (selectedIndex < top) top = selectedIndex;
+    if (selectedIndex >= top + pageSize) top = selectedIndex - pageSize + 1;
+  };
+  const filter = (next: string) => {
+    query = next;
+    matches = options
+      .map((option, index) => {
+        const scores = [fuzzyMatchScore(query, option.label), fuzzyMatchScore(query, option.id)];
+        const best = Math.min(...scores.map((score) => score ?? Infinity));
+        return { option, index, score: best };
+      })
+      .filter((m) => m.score !== Infinity)
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map((m) => m.option);
+    top = 0;
+    move(0);
+  };
+  const pick = (option: SearchSelectPromptOption | undefined, done: (o: SearchSelectPromptOption) => void) => {
+    if (!option) return false;
+    if (option.disabled) {
+      error = `${option.label} cannot be picked: ${option.disabled}.`;
+      return true;
+    }
+    done(option);
+    return false;
+  };
+  move(selectedIndex);
+
+  // Long lists re-render on every keystroke; clearing the screen each time
+  // flickers and loses the scrollback.
+  return await runKeypressPrompt<SearchSelectPromptOption>({
+    inPlace: true,
+    render: () =>
+      renderSearchSelect({ title, query, matches, selectedIndex, top, pageSize, error, hint }),
+    onKeypress: (key, done) => {
+      error = null;
+      switch (key.name) {
+        case 'up':
+          move(selectedIndex - 1);
+          return true;
+        case 'down':
+          move(selectedIndex + 1);
+          return true;
+        case 'pageup':
+          move(selectedIndex - pageSize);
+          return true;
+        case 'pagedown':
+          move(selectedIndex + pageSize);
+          return true;
+        case 'home':
+          move(0);
+          return true;
+        case 'end':
+          move(matches.length - 1);
+          return true;
+        case 'return':
+          return pick(matches[selectedIndex], done);
+        case 'backspace':
+          filter(query.slice(0, -1));
+          return true;
+        case 'escape':
+          filter('');
+          return true;
+      }
+      const ch = key.sequence;
+      if (!ch || ch.length !== 1 || key.ctrl || key.meta || ch < ' ') return false;
+      if (!query && ch >= '1' && ch <= '9') {
+        const option = matches[top + Number(ch) - 1];
+        return option ? pick(option, done) : false;
+      }
+      filter(query + ch);
+      return true;
+    },
+  });
+}
+
+/**
+ * Arrow-key multi-select prompt.
+ *
+ * - Requires TTY.
+ * - Space toggles, `a` toggles all, Enter confirms. Enter with nothing checked
+ *   picks the highlighted option.
+ * - Returns the checked options (in option order), or null on Ctrl+C.
+ */
+export async function multiSelectPrompt({
+  title,
+  options,
+  defaultIds = [],
+  hint = 'Use ↑/↓, Space to toggle, a for all, Enter to confirm.',
+}: {
+  title: string;
+  options: SelectPromptOption[];
+  defaultIds?: string[];
+  hint?: string;
+}): Promise<SelectPromptOption[] | null> {
+  if (!isInteractive()) {
+    throw new Error(`Cannot prompt without a TTY: ${title}`);
+  }
+  if (!Array.isArray(options) || options.length < 1) {
+    throw new Error('multiSelectPrompt requires at least 1 option.');
+  }
+  let selectedIndex = 0;
+  const checked = new Set<number>();
+  options.forEach((o, i) => {
+    if (defaultIds.includes(o.id)) checked.add(i);
+  });
+
+  return await runKeypressPrompt<SelectPromptOption[]>({
+    render: () =>
+      renderMultiSelect({ title, options, selectedIndex, checked, hint }),
+    onKeypress: (key, done) => {
+      if (key.name === 'up') {
+        selectedIndex = (selectedIndex - 1 + options.length) % options.length;
+        return true;
+      }
+      if (key.name === 'down') {
+        selectedIndex = (selectedIndex + 1) % options.length;
+        return true;
+      }
+      if (key.name === 'space') {
+        if (checked.has(selectedIndex)) checked.delete(selectedIndex);
+        else checked.add(selectedIndex);
+        return true;
+      }
+      if (key.name === 'a') {
+        const all = checked.size === options.length;
+        checked.clear();
+        if (!all) options.forEach((_o, i) => checked.add(i));
+        return true;
+      }
+      if (key.name === 'return') {
+        if (!checked.size) checked.add(selectedIndex);
+        done(options.filter((_o, i) => checked.has(i)));
+      }
+      return false;
+    },
+  });
+}
+
 export async function confirmPrompt({
   question,
   defaultValue = true,
@@ -152,14 +464,50 @@ export async function confirmPrompt({
   });
 }
 
+/**
+ * One `rl.question`. Ctrl+C, or Ctrl+D on an empty line, rejects with
+ * "Aborted." (exit code 130).
+ */
+function ask(rl: readline.Interface, query: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      rl.off('SIGINT', abort);
+      rl.off('close', abort);
+      process.exitCode = 130;
+      reject(new Error('Aborted.'));
+    };
+    rl.on('SIGINT', abort);
+    rl.on('close', abort);
+    rl.question(query, (answer) => {
+      rl.off('SIGINT', abort);
+      rl.off('close', abort);
+      resolve(answer ?? '');
+    });
+  });
+}
+
+/**
+ * Line input prompt.
+ *
+ * - Without a TTY, returns `defaultValue` (throws if `validate` rejects it).
+ * - An empty answer takes `defaultValue`.
+ * - When `validate` rejects an answer, its message is shown and the question
+ *   asked again, up to `maxAttempts` answers in total.
+ * - Ctrl+C or Ctrl+D rejects with "Aborted.".
+ */
 export async function inputPrompt({
   question,
   defaultValue = '',
   validate,
+  completer,
+  maxAttempts = 5,
 }: {
   question: string;
   defaultValue?: string;
   validate?: (value: string) => string | null;
+  /** Tab completion, e.g. {@link completePath}. */
+  completer?: readline.Completer;
+  maxAttempts?: number;
 }): Promise<string> {
   if (!isInteractive()) {
     if (validate) {
@@ -171,20 +519,123 @@ export async function inputPrompt({
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
+    ...(completer && { completer }),
   });
-  return await new Promise((resolve) => {
-    rl.question(`${question} `, (answer) => {
-      rl.close();
-      const value = (answer ?? '').trim() || String(defaultValue);
-      if (validate) {
-        const err = validate(value);
-        if (err) {
-          throw new Error(err);
-        }
+  try {
+    for (let attempt = 1; ; attempt += 1) {
+      const value = (await ask(rl, `${question} `)).trim() || String(defaultValue);
+      const err = validate?.(value) ?? null;
+      if (!err) return value;
+      if (attempt >= maxAttempts) {
+        throw new Error(`${err} (no valid answer after ${maxAttempts} attempts)`);
       }
-      resolve(value);
-    });
-  });
+      process.stdout.write(`  ${err} Try again, or press Ctrl+C to cancel.\n`);
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Tab completion for paths relative to `baseDir`: completes the last segment
+ * of the line and marks directories with a trailing `/`.
+ */
+export function completePath(baseDir: string): readline.Completer {
+  return (line: string) => {
+    const slash = line.lastIndexOf('/');
+    const dirPart = line.slice(0, slash + 1);
+    const prefix = line.slice(slash + 1);
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.resolve(baseDir, dirPart || '.'), { withFileTypes: true });
+    } catch {
+      return [[], line];
+    }
+    const hits = entries
+      .filter((e) => e.name.startsWith(prefix) && (prefix.startsWith('.') || !e.name.startsWith('.')))
+      .map((e) => `${dirPart}${e.name}${e.isDirectory() ? '/' : ''}`)
+      .sort();
+    return [hits, line];
+  };
+}
+
+/** {@link inputPrompt} for a path relative to `baseDir`, with Tab completion. */
+export async function pathPrompt({
+  question,
+  baseDir,
+  defaultValue,
+  validate,
+}: {
+  question: string;
+  baseDir: string;
+  defaultValue?: string;
+  validate?: (value: string) => string | null;
+}): Promise<string> {
+  return await inputPrompt({ question, defaultValue, validate, completer: completePath(baseDir) });
 }
 
+/** {@link inputPrompt} for a TCP port (1-65535). */
+export async function portPrompt({
+  question,
+  defaultValue,
+  validate,
+}: {
+  question: string;
+  defaultValue?: number;
+  validate?: (port: number) => string | null;
+}): Promise<number> {
+  const entered = await inputPrompt({
+    question,
+    defaultValue: defaultValue === undefined ? '' : String(defaultValue),
+    validate: (value) => {
+      const port = Number(value);
+      if (!/^\d+$/.test(value) || port < 1 || port > 65_535) return 'Must be a port (1-65535).';
+      return validate?.(port) ?? null;
+    },
+  });
+  return Number(entered);
+}
 
+/**
+ * Masked input: typed characters are shown as `*` and never echoed.
+ *
+ * - Requires TTY.
+ * - Enter with an empty value is allowed unless `validate` rejects it; a
+ *   rejected value is cleared and the error shown.
+ * - Returns the entered value, or null on Ctrl+C.
+ */
+export async function secretPrompt({
+  question,
+  validate,
+}: {
+  question: string;
+  validate?: (value: string) => string | null;
+}): Promise<string | null> {
+  if (!isInteractive()) {
+    throw new Error(`Cannot prompt without a TTY: ${question}`);
+  }
+  let value = '';
+  let error: string | null = null;
+  return await runKeypressPrompt<string>({
+    render: () =>
+      [`${question} ${'*'.repeat(value.length)}`, ...(error ? ['', error] : [])].join('\n'),
+    onKeypress: (key, done) => {
+      if (key.name === 'return') {
+        error = validate?.(value) ?? null;
+        if (!error) done(value);
+        else value = '';
+        return Boolean(error);
+      }
+      if (key.name === 'backspace') {
+        value = value.slice(0, -1);
+        return true;
+      }
+      const ch = key.sequence;
+      if (ch && ch.length === 1 && !key.ctrl && !key.meta && ch >= ' ') {
+        value += ch;
+        return true;
+      }
+      return false;
+    },
+  });
+}
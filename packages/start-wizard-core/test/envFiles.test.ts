@@ -0,0 +1,98 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { interpolateEnv, maskEnvValue, parseEnvFile, resolveEnv } from '../src/envFiles.js';
+
+const values = { mode: 'dev', ports: { api: 4000 }, options: { host: 'localhost' } };
+
+describe('parseEnvFile', () => {
+  it('reads dotenv syntax', () => {
+    expect(
+      parseEnvFile(
+        [
+          '# comment',
+          'export A=1',
+          'B = two # trailing',
+          `C='single # kept'`,
+          'D="line\\nbreak"',
+          'not a var',
+        ].join('\n')
+      )
+    ).toEqual({ A: '1', B: 'two', C: 'single # kept', D: 'line\nbreak' });
+  });
+});
+
+describe('interpolateEnv', () => {
+  it('replaces mode, ports, options and env placeholders', () => {
+    expect(
+      interpolateEnv('${mode} http://${options.host}:${ports.api} ${env.USER}', values, {
+        USER: 'me',
+      })
+    ).toBe('dev http://localhost:4000 me');
+  });
+
+  it('fails on unknown placeholders', () => {
+    expect(() => interpolateEnv('${ports.web}', values, {})).toThrow(
+      'Cannot resolve ${ports.web}: product "web" has no port in this run.'
+    );
+    expect(() => interpolateEnv('${nope}', values, {})).toThrow('Cannot resolve ${nope}.');
+  });
+});
+
+describe('resolveEnv', () => {
+  it('layers files, the shell and inline vars', () => {
+    const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'start-wizard-env-'));
+    fs.writeFileSync(path.join(repoRoot, '.env'), 'A=base\nB=base\nC=base\n');
+    fs.writeFileSync(path.join(repoRoot, '.env.dev'), 'B=dev\n');
+
+    const { env, vars } = resolveEnv({
+      repoRoot,
+      specs: [
+        { files: ['.env', '.env.${mode}', '.env.missing'] },
+        { vars: { D: 'http://localhost:${ports.api}', E: '${env.D}/v1' } },
+      ],
+      values,
+      baseEnv: { C: 'shell' },
+    });
+
+    expect(env).toMatchObject({
+      A: 'base',
+      B: 'dev',
+      C: 'shell',
+      D: 'http://localhost:4000',
+      E: 'http://localhost:4000/v1',
+    });
+    expect(vars).toEqual({
+      A: 'base',
+      B: 'dev',
+      D: 'http://localhost:4000',
+      E: 'http://localhost:4000/v1',
+    });
+  });
+
+  it('names the vars built from secret options', () => {
+    const { secrets } = resolveEnv({
+      repoRoot: os.tmpdir(),
+      specs: [
+        { vars: { AUTH: 'Bearer ${options.token}', HEADER: '-H ${env.AUTH}', URL: '${options.host}' } },
+      ],
+      values: { ...values, options: { ...values.options, token: 't' }, secretOptions: ['token'] },
+      baseEnv: {},
+    });
+    expect(secrets).toEqual(['AUTH', 'HEADER']);
+  });
+});
+
+describe('maskEnvValue', () => {
+  it('masks secret-looking keys', () => {
+    expect(maskEnvValue('STRIPE_SECRET', 'sk')).toBe('****');
+    expect(maskEnvValue('API_KEY', 'k')).toBe('****');
+    expect(maskEnvValue('DB_PASSWORD', 'p')).toBe('****');
+    expect(maskEnvValue('KEYBOARD_LAYOUT', 'us')).toBe('us');
+    expect(maskEnvValue('API_URL', 'http://x')).toBe('http://x');
+    expect(maskEnvValue('AUTH_HEADER', 'Bearer t', true)).toBe('****');
+  });
+});
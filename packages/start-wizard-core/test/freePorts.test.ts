@@ -0,0 +1,152 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { flexiblePortRange, holdFreePort, holdPort, type PortHold } from '../src/freePorts.js';
+import {
+  resolvePortConflictsInteractively,
+  type PortConflict,
+} from '../src/portConflicts.js';
+import { portPrompt, selectPrompt } from '../src/ttyPrompts.js';
+
+vi.mock('../src/ttyPrompts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ttyPrompts.js')>()),
+  selectPrompt: vi.fn(),
+  portPrompt: vi.fn(),
+}));
+
+async function listenOnFreePort(host = '127.0.0.1'): Promise<net.Server> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, host, resolve));
+  return server;
+}
+
+const portOf = (server: net.Server) => (server.address() as AddressInfo).port;
+
+function setLooseProp(obj: object, key: string, value: unknown): () => void {
+  const desc = Object.getOwnPropertyDescriptor(obj, key);
+  Object.defineProperty(obj, key, { value, configurable: true, writable: true });
+  return () => {
+    if (desc) Object.defineProperty(obj, key, desc);
+    else delete (obj as Record<string, unknown>)[key];
+  };
+}
+const close = (server: net.Server) =>
+  new Promise((resolve) => server.close(resolve));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('flexiblePortRange', () => {
+  test('maps flexible settings to a search range', () => {
+    expect(flexiblePortRange({ port: 3000, flexible: 'auto' })).toEqual([3001, 3100]);
+    expect(flexiblePortRange({ port: 65_500, flexible: 'auto' })).toEqual([65_501, 65_535]);
+    expect(flexiblePortRange({ port: 3000, flexible: { range: [4000, 4010] } })).toEqual([
+      4000, 4010,
+    ]);
+    expect(flexiblePortRange({ port: 3000, flexible: true })).toBeUndefined();
+    expect(flexiblePortRange({ port: 3000 })).toBeUndefined();
+  });
+});
+
+describe('holdFreePort', () => {
+  test('skips taken and excluded ports and holds the one it picks', async () => {
+    const busy = await listenOnFreePort();
+    const port = portOf(busy);
+    try {
+      expect(await holdPort({ port })).toBeNull();
+      const hold = await holdFreePort({
+        range: [port, port + 20],
+        exclude: new Set([port + 1]),
+      });
+      expect(hold).not.toBeNull();
+      expect(hold!.port).toBeGreaterThan(port + 1);
+      expect(await holdPort({ port: hold!.port })).toBeNull();
+      await hold!.release();
+      const again = await holdPort({ port: hold!.port });
+      expect(again).not.toBeNull();
+      await again!.release();
+    } finally {
+      await close(busy);
+    }
+  });
+});
+
+describe('resolvePortConflictsInteractively', () => {
+  test('picks distinct free ports without prompting under --yes', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const busy = await listenOnFreePort();
+    const port = portOf(busy);
+    const conflict = (desiredService: string): PortConflict => ({
+      port,
+      desiredService,
+      flexible: true,
+      range: [port + 1, port + 20],
+      optionName: 'port',
+      listeners: [],
+    });
+    const conflicts = [conflict('web'), conflict('api')];
+    let holds: PortHold[];
+    try {
+      holds = await resolvePortConflictsInteractively({
+        conflicts,
+        kill: false,
+        yes: true,
+        claimedPorts: [port + 1],
+      });
+    } finally {
+      await close(busy);
+    }
+    const [web, api] = conflicts.map((c) => c.newPort);
+    expect(web).toBeGreaterThan(port + 1);
+    expect(api).toBeGreaterThan(port + 1);
+    expect(web).not.toBe(api);
+
+    // The picked ports stay held until the caller releases them.
+    expect(holds.map((hold) => hold.port)).toEqual([web, api]);
+    expect(await holdPort({ port: web! })).toBeNull();
+    await Promise.all(holds.map((hold) => hold.release()));
+    const freed = await holdPort({ port: web! });
+    expect(freed).not.toBeNull();
+    await freed!.release();
+  });
+
+  test.runIf(process.platform === 'linux')('asks again when the port typed in is taken', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const restoreTty = setLooseProp(process.stdin, 'isTTY', true);
+    const busy = await listenOnFreePort();
+    const other = await listenOnFreePort();
+    const spare = await listenOnFreePort();
+    const free = portOf(spare);
+    await close(spare);
+    const port = portOf(busy);
+    const otherPort = portOf(other);
+    const conflicts: PortConflict[] = [
+      { port, desiredService: 'web', flexible: true, optionName: 'port', listeners: [] },
+    ];
+    vi.mocked(selectPrompt).mockResolvedValueOnce({ id: 'change', label: 'Choose' });
+    const errors: Array<string | null> = [];
+    // Answer with the conflicting port, then another busy one, then a free one.
+    vi.mocked(portPrompt).mockImplementationOnce(async ({ validate }) => {
+      for (const answer of [port, otherPort, free]) {
+        const error = validate?.(answer) ?? null;
+        errors.push(error);
+        if (!error) return answer;
+      }
+      throw new Error('no valid answer');
+    });
+    try {
+      await resolvePortConflictsInteractively({ conflicts, kill: false, yes: false });
+    } finally {
+      restoreTty();
+      await Promise.all([close(busy), close(other)]);
+    }
+    expect(errors).toEqual([
+      `Port ${port} is already claimed by this run.`,
+      `Port ${otherPort} is already in use.`,
+      null,
+    ]);
+    expect(conflicts[0]).toMatchObject({ resolution: 'reassign', newPort: free });
+  });
+});
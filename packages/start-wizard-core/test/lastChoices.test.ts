@@ -0,0 +1,31 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { readLastChoices, writeLastChoices } from '../src/lastChoices.js';
+
+const tmpDir = (prefix: string) => fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('last choices', () => {
+  test('are kept per checkout under $XDG_STATE_HOME, outside the repo', () => {
+    const stateHome = tmpDir('start-wizard-state-');
+    vi.stubEnv('XDG_STATE_HOME', stateHome);
+    const repo = tmpDir('start-wizard-repo-');
+    const other = tmpDir('start-wizard-repo-');
+    const choices = { products: ['web'], mode: 'dev', options: { web: { port: 3001 } } };
+
+    writeLastChoices(repo, choices);
+    expect(readLastChoices(repo)).toEqual(choices);
+    expect(readLastChoices(path.join(repo, '.'))).toEqual(choices);
+    expect(readLastChoices(other)).toBeUndefined();
+    expect(fs.readdirSync(repo)).toEqual([]);
+    expect(fs.readdirSync(path.join(stateHome, 'start-wizard'))).toEqual([
+      expect.stringMatching(/^last-choices-[0-9a-f]{16}\.json$/),
+    ]);
+  });
+});
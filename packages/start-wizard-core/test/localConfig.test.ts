@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyLocalConfig } from '../src/localConfig.js';
+import { defineConfig, type StartWizardContext } from '../src/startWizardConfig.js';
+
+const config = defineConfig({
+  defaultProduct: 'web',
+  products: [
+    {
+      id: 'web',
+      label: 'Web',
+      options: [
+        {
+          name: 'port',
+          flag: 'port',
+          kind: 'number',
+          defaultValue: 3000,
+          min: 1024,
+          prompt: { question: 'Port?', defaultValue: '3000' },
+        },
+        {
+          name: 'target',
+          kind: 'select',
+          options: [
+            { id: 'a', label: 'A' },
+            { id: 'b', label: 'B' },
+          ],
+          prompt: { title: 'Target?', defaultIndex: 0 },
+        },
+      ],
+      portPlan: (ctx) => [
+        { port: ctx.options.port as number, desiredService: 'web', optionName: 'port' },
+      ],
+      start: () => undefined,
+    },
+    {
+      id: 'mobile',
+      label: 'Mobile',
+      portPlan: () => [
+        { port: 8081, desiredService: 'Metro' },
+        { port: 5432, desiredService: 'Postgres', onConflict: 'reuse' },
+      ],
+      start: () => undefined,
+    },
+  ],
+});
+
+const ctx = (options: Record<string, unknown>) =>
+  ({ repoRoot: '/repo', productId: 'web', mode: 'dev', options }) as unknown as StartWizardContext;
+
+describe('applyLocalConfig', () => {
+  it('overrides option defaults, the default product and the default mode', () => {
+    const merged = applyLocalConfig(config, {
+      defaultProduct: 'mobile',
+      defaultMode: 'local',
+      products: { web: { options: { port: 8082, target: 'b' } } },
+    });
+    expect(merged.defaultProduct).toBe('mobile');
+    expect(merged.modes?.filter((m) => m.default).map((m) => m.id)).toEqual(['local']);
+    const [port, target] = merged.products[0]!.options!;
+    expect(port).toMatchObject({ defaultValue: 8082, prompt: { defaultValue: '8082' } });
+    expect(target).toMatchObject({ defaultId: 'b', prompt: { title: 'Target?' } });
+    expect(target?.prompt).not.toHaveProperty('defaultIndex');
+    // The shared config is left alone.
+    expect(config.products[0]!.options![0]).toMatchObject({ defaultValue: 3000 });
+  });
+
+  it('moves port plan entries by desiredService', () => {
+    const merged = applyLocalConfig(config, {
+      products: { mobile: { ports: { Postgres: 5433 } } },
+    });
+    expect(merged.products[1]!.portPlan!(ctx({}))).toEqual([
+      { port: 8081, desiredService: 'Metro' },
+      { port: 5433, desiredService: 'Postgres', onConflict: 'reuse' },
+    ]);
+    // A port that comes from an option is moved through the option.
+    const web = applyLocalConfig(config, { products: { web: { ports: { web: 3001 } } } });
+    expect(() => web.products[0]!.portPlan!(ctx({ port: 3000 }))).toThrow(
+      'products.web.ports.web: the port comes from option "port"; set products.web.options.port instead.'
+    );
+    expect(() =>
+      applyLocalConfig(config, { products: { mobile: { ports: { Metro: 70_000 } } } })
+    ).toThrow('products.mobile.ports.Metro must be a port (1-65535).');
+  });
+
+  it('rejects overrides for unknown products, options and modes', () => {
+    expect(() => applyLocalConfig(config, { products: { api: {} } })).toThrow(
+      'products.api references an unknown product.'
+    );
+    expect(() =>
+      applyLocalConfig(config, { products: { web: { options: { host: 'x' } } } })
+    ).toThrow('products.web.options.host references an unknown option.');
+    expect(() => applyLocalConfig(config, { defaultMode: 'staging' })).toThrow(
+      'defaultMode references unknown mode "staging".'
+    );
+  });
+
+  it('validates the merged config', () => {
+    expect(() =>
+      applyLocalConfig(config, { products: { web: { options: { port: 80 } } } })
+    ).toThrow('Product "web": options[0].defaultValue must be >= 1024.');
+    expect(() =>
+      applyLocalConfig(config, { products: { web: { options: { target: 'c' } } } })
+    ).toThrow('Product "web": options[1].defaultId must be one of: a, b.');
+    expect(() => applyLocalConfig(config, { install: 'no' as unknown as boolean })).toThrow(
+      'install must be a boolean.'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { spawn } from 'node:child_process';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { isPidAlive } from '../src/processTree.js';
+import {
+  collectPortConflicts,
+  resolvePortConflictsInteractively,
+} from '../src/portConflicts.js';
+import type { StartWizardPortPlanEntry } from '../src/startWizardConfig.js';
+
+/** A separate process listening on a free port, tagged so matchers can tell it apart. */
+async function spawnListener(tag: string) {
+  const child = spawn(
+    process.execPath,
+    [
+      '-e',
+      "const s = require('node:net').createServer(); s.listen(0, '127.0.0.1', () => console.log(s.address().port));",
+      tag,
+    ],
+    { stdio: ['ignore', 'pipe', 'ignore'] }
+  );
+  const port = await new Promise<number>((resolve) => {
+    child.stdout.once('data', (chunk: Buffer) => resolve(Number(chunk.toString().trim())));
+  });
+  return { child, port };
+}
+
+const children: Array<ReturnType<typeof spawn>> = [];
+
+afterEach(() => {
+  for (const child of children.splice(0)) child.kill('SIGKILL');
+  vi.restoreAllMocks();
+});
+
+async function conflictFor(entry: Omit<StartWizardPortPlanEntry, 'port' | 'desiredService'>) {
+  const { child, port } = await spawnListener('stale-dev-server');
+  children.push(child);
+  const conflicts = await collectPortConflicts([
+    { port, desiredService: 'web', ...entry },
+  ]);
+  return { child, port, conflicts };
+}
+
+describe.runIf(process.platform === 'linux')('onConflict policies', () => {
+  test('abort never kills, even with --kill', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, conflicts } = await conflictFor({ onConflict: 'abort' });
+    await expect(
+      resolvePortConflictsInteractively({ conflicts, kill: true, yes: true })
+    ).rejects.toThrow(/onConflict: 'abort'/);
+    expect(isPidAlive(child.pid!)).toBe(true);
+  });
+
+  test('reuse leaves the listener running', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, conflicts } = await conflictFor({ onConflict: 'reuse' });
+    await resolvePortConflictsInteractively({ conflicts, kill: false, yes: false });
+    expect(isPidAlive(child.pid!)).toBe(true);
+    expect(conflicts[0]!.newPort).toBeUndefined();
+  });
+
+  test('kill applies without prompting when the command matches', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, conflicts } = await conflictFor({
+      onConflict: 'kill',
+      onConflictMatch: /stale-dev-server/,
+    });
+    expect(conflicts[0]!.onConflict).toBe('kill');
+    await resolvePortConflictsInteractively({ conflicts, kill: false, yes: false });
+    expect(isPidAlive(child.pid!)).toBe(false);
+  });
+
+  test('falls back to prompting when the command does not match', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { conflicts } = await conflictFor({
+      onConflict: 'kill',
+      onConflictMatch: 'next dev',
+    });
+    expect(conflicts[0]!.onConflict).toBe('prompt');
+  });
+
+  test('reassign moves to a free port in the range', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, port, conflicts } = await conflictFor({
+      onConflict: 'reassign',
+      flexible: 'auto',
+      optionName: 'port',
+    });
+    await resolvePortConflictsInteractively({ conflicts, kill: true, yes: true });
+    expect(conflicts[0]!.newPort).toBeGreaterThan(port);
+    expect(isPidAlive(child.pid!)).toBe(true);
+  });
+
+  test('dry runs record the decision without killing', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, conflicts } = await conflictFor({ onConflict: 'kill' });
+    await resolvePortConflictsInteractively({
+      conflicts,
+      kill: false,
+      yes: false,
+      dryRun: true,
+    });
+    expect(conflicts[0]!.resolution).toBe('kill');
+    expect(isPidAlive(child.pid!)).toBe(true);
+  });
+});
+
+describe.runIf(process.platform === 'linux')('recorded decisions', () => {
+  test('kill is replayed without prompting', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { child, port, conflicts } = await conflictFor({});
+    await resolvePortConflictsInteractively({
+      conflicts,
+      kill: false,
+      yes: false,
+      decisions: [{ port, resolution: 'kill' }],
+    });
+    expect(conflicts[0]!.resolution).toBe('kill');
+    expect(isPidAlive(child.pid!)).toBe(false);
+  });
+
+  test('reassign to a port that is now taken fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { port, conflicts } = await conflictFor({ flexible: true, optionName: 'port' });
+    const other = await spawnListener('other');
+    children.push(other.child);
+    await expect(
+      resolvePortConflictsInteractively({
+        conflicts,
+        kill: false,
+        yes: false,
+        decisions: [{ port, resolution: 'reassign', newPort: other.port }],
+      })
+    ).rejects.toThrow(`The recorded answer for port ${port} (web) no longer applies`);
+  });
+});
@@ -0,0 +1,109 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, test } from 'vitest';
+
+import {
+  bindAddressesOverlap,
+  lookupPortListeners,
+  procfsListenerBackend,
+  type ListeningSocket,
+  type PortListenerBackend,
+} from '../src/portListeners.js';
+
+const unavailable = (name: string): PortListenerBackend => ({
+  name,
+  list: () => null,
+});
+
+const listing = (name: string, sockets: ListeningSocket[]): PortListenerBackend => ({
+  name,
+  list: () => sockets,
+});
+
+describe('lookupPortListeners', () => {
+  test('reports unknown when no backend can answer', () => {
+    expect(
+      lookupPortListeners(3000, {
+        backends: [unavailable('procfs'), unavailable('lsof')],
+      })
+    ).toEqual({
+      status: 'unknown',
+      reason: 'no listener-detection backend available (tried procfs, lsof)',
+    });
+  });
+
+  test('asks later backends for pids when the first one cannot attribute the port', () => {
+    const anonymous = { address: '0.0.0.0', family: 4 } as const;
+    const backends: PortListenerBackend[] = [
+      listing('a', [anonymous]),
+      listing('b', []),
+      listing('c', [{ ...anonymous, pid: 42 }]),
+    ];
+    expect(lookupPortListeners(3000, { backends })).toEqual({
+      status: 'in-use',
+      backend: 'c',
+      pids: [42],
+      sockets: [{ ...anonymous, pid: 42 }],
+    });
+    expect(lookupPortListeners(3000, { backends: backends.slice(0, 2) })).toEqual({
+      status: 'in-use',
+      backend: 'a',
+      pids: [],
+      sockets: [anonymous],
+    });
+  });
+
+  test('only counts listeners whose bind address overlaps the host', () => {
+    const backends = [
+      listing('a', [
+        { address: '127.0.0.1', family: 4, pid: 1 },
+        { address: '::', family: 6, pid: 2 },
+      ]),
+    ];
+    expect(lookupPortListeners(3000, { host: '::1', backends })).toMatchObject({
+      status: 'in-use',
+      pids: [2],
+    });
+    expect(
+      lookupPortListeners(3000, {
+        host: '::1',
+        backends: [listing('a', [{ address: '127.0.0.1', family: 4, pid: 1 }])],
+      })
+    ).toEqual({ status: 'free', backend: 'a' });
+    expect(lookupPortListeners(3000, { backends })).toMatchObject({ pids: [1, 2] });
+  });
+
+  test.runIf(process.platform === 'linux')(
+    'finds this process via /proc without lsof',
+    async () => {
+      const server = net.createServer();
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      try {
+        expect(procfsListenerBackend.list(port)).toEqual([
+          { address: '127.0.0.1', family: 4, pid: process.pid },
+        ]);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+      expect(procfsListenerBackend.list(port)).toEqual([]);
+    }
+  );
+});
+
+describe('bindAddressesOverlap', () => {
+  test.each([
+    ['127.0.0.1', '127.0.0.1', true],
+    ['127.0.0.1', '::1', false],
+    ['::1', '127.0.0.1', false],
+    ['0.0.0.0', '127.0.0.1', true],
+    ['0.0.0.0', '::1', false],
+    ['::', '127.0.0.1', true],
+    ['::1', '::', true],
+    ['127.0.0.1', 'localhost', true],
+    ['::1', 'localhost', true],
+    ['192.168.1.5', '127.0.0.1', false],
+  ] as const)('%s vs %s -> %s', (address, host, expected) => {
+    expect(bindAddressesOverlap(address, host)).toBe(expected);
+  });
+});
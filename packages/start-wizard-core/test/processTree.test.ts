@@ -0,0 +1,67 @@
+import { spawn } from 'node:child_process';
+import { describe, expect, test } from 'vitest';
+
+import { isPidAlive, terminateProcess } from '../src/processTree.js';
+
+/** Spawn a node script and resolve once it prints its first line. */
+async function spawnReady(script: string) {
+  const child = spawn(process.execPath, ['-e', script], {
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  const firstLine = await new Promise<string>((resolve) => {
+    child.stdout.once('data', (chunk: Buffer) => resolve(chunk.toString().trim()));
+  });
+  return { child, firstLine };
+}
+
+describe('terminateProcess', () => {
+  test('stops at SIGTERM when the process exits in time', async () => {
+    const { child } = await spawnReady(
+      "console.log('ready'); setInterval(() => {}, 1000);"
+    );
+    expect(await terminateProcess(child.pid!, { graceMs: 2000 })).toEqual({
+      exited: true,
+      signal: 'SIGTERM',
+    });
+  });
+
+  test('escalates to SIGKILL after the grace period', async () => {
+    const { child } = await spawnReady(
+      "process.on('SIGTERM', () => {}); console.log('ready'); setInterval(() => {}, 1000);"
+    );
+    const started = Date.now();
+    expect(await terminateProcess(child.pid!, { graceMs: 300 })).toEqual({
+      exited: true,
+      signal: 'SIGKILL',
+    });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+  });
+
+  test('kills descendants with tree: true', async () => {
+    const { child, firstLine } = await spawnReady(`
+      const { spawn } = require('node:child_process');
+      const worker = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+      console.log(worker.pid);
+      setInterval(() => {}, 1000);
+    `);
+    const workerPid = Number(firstLine);
+    expect(isPidAlive(workerPid)).toBe(true);
+    expect(
+      await terminateProcess(child.pid!, { graceMs: 2000, tree: true })
+    ).toMatchObject({ exited: true });
+    expect(isPidAlive(workerPid)).toBe(false);
+  });
+
+  test('reports a process that survives every signal', async () => {
+    const { child } = await spawnReady(
+      "process.on('SIGINT', () => {}); console.log('ready'); setInterval(() => {}, 1000);"
+    );
+    try {
+      expect(
+        await terminateProcess(child.pid!, { signals: ['SIGINT'], graceMs: 200 })
+      ).toEqual({ exited: false });
+    } finally {
+      child.kill('SIGKILL');
+    }
+  });
+});
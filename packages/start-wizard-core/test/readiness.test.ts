@@ -0,0 +1,128 @@
+import { spawn } from 'node:child_process';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { waitForReadiness } from '../src/readiness.js';
+import { createSupervisor } from '../src/supervisor.js';
+
+describe('waitForReadiness', () => {
+  const servers: http.Server[] = [];
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(
+      servers.splice(0).map((s) => new Promise((resolve) => s.close(resolve)))
+    );
+  });
+
+  async function listen(status: number): Promise<number> {
+    const server = http.createServer((_req, res) => {
+      res.statusCode = status;
+      res.end();
+    });
+    servers.push(server);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    return (server.address() as AddressInfo).port;
+  }
+
+  test('passes once port, http and log checks succeed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const port = await listen(200);
+    const listeners = new Set<(line: string) => void>();
+    const output = {
+      onOutput: (listener: (line: string) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      recentOutput: () => ['compiling…'],
+    };
+    setTimeout(() => {
+      for (const l of listeners) l('ready - started server on 0.0.0.0:3000');
+    }, 20);
+
+    await expect(
+      waitForReadiness({
+        name: 'web',
+        checks: [
+          { kind: 'port', port, timeoutMs: 2_000 },
+          { kind: 'http', port, path: 'health', timeoutMs: 2_000 },
+          { kind: 'log', pattern: /ready - started/, timeoutMs: 2_000 },
+        ],
+        output,
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  test('reports the failed check, its last result and recent output', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const port = await listen(503);
+
+    const error = await waitForReadiness({
+      name: 'api',
+      checks: [{ kind: 'http', port, path: '/health', timeoutMs: 600 }],
+      output: {
+        onOutput: () => () => undefined,
+        recentOutput: () => ['Error: database unavailable'],
+      },
+    }).catch((err: Error) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(
+      `api did not become ready: GET http://127.0.0.1:${port}/health`
+    );
+    expect((error as Error).message).toContain('last result: HTTP 503');
+    expect((error as Error).message).toContain('Error: database unavailable');
+  });
+
+  test('fails as soon as the process exits instead of waiting for the timeout', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const port = await listen(503);
+    let exit: (reason: string) => void = () => undefined;
+    setTimeout(() => exit('api exited (code 1)'), 50);
+
+    const started = Date.now();
+    const error = await waitForReadiness({
+      name: 'api',
+      checks: [{ kind: 'http', port, timeoutMs: 10_000 }],
+      output: {
+        onOutput: () => () => undefined,
+        recentOutput: () => ['Error: EADDRINUSE'],
+        onExit: (listener) => {
+          exit = listener;
+          return () => undefined;
+        },
+      },
+    }).catch((err: Error) => err);
+
+    expect(Date.now() - started).toBeLessThan(2_000);
+    expect((error as Error).message).toContain('api did not become ready: api exited (code 1)');
+    expect((error as Error).message).toContain('Error: EADDRINUSE');
+  });
+
+  test('fails right away when the process exited before waiting began', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const supervisor = createSupervisor({ handleSignals: false, log: () => undefined });
+    const unit = supervisor.unit({ name: 'api', start: () => undefined });
+    const child = unit.register(
+      spawn(process.execPath, ['-e', 'process.exit(1)'], { stdio: 'ignore' })
+    );
+    await new Promise((resolve) => child.once('exit', resolve));
+    await supervisor.wait();
+
+    const port = await listen(503);
+    const started = Date.now();
+    await expect(
+      waitForReadiness({
+        name: 'api',
+        checks: [{ kind: 'http', port, timeoutMs: 10_000 }],
+        output: unit,
+      })
+    ).rejects.toThrow('api did not become ready: api exited (code 1)');
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+});
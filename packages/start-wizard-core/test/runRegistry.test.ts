@@ -0,0 +1,175 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { resolvePreviousRunConflicts, type PortConflict } from '../src/portConflicts.js';
+import { isPidAlive, processStartTime } from '../src/processTree.js';
+import {
+  findOwningRun,
+  forgetRuns,
+  readRunRegistry,
+  recordRun,
+  type StartWizardRunRecord,
+} from '../src/runRegistry.js';
+import { selectPrompt } from '../src/ttyPrompts.js';
+
+vi.mock('../src/ttyPrompts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ttyPrompts.js')>()),
+  selectPrompt: vi.fn(),
+}));
+
+function tmpRepo(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'start-wizard-runs-'));
+}
+
+function setLooseProp(obj: object, key: string, value: unknown): () => void {
+  const desc = Object.getOwnPropertyDescriptor(obj, key);
+  Object.defineProperty(obj, key, { value, configurable: true, writable: true });
+  return () => {
+    if (desc) Object.defineProperty(obj, key, desc);
+    else delete (obj as Record<string, unknown>)[key];
+  };
+}
+
+const run = (overrides: Partial<StartWizardRunRecord> = {}): StartWizardRunRecord => ({
+  productId: 'web',
+  mode: 'dev',
+  wizardPid: process.pid,
+  pids: [],
+  ports: [3000],
+  startedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('run registry', () => {
+  test('records runs, prunes dead ones and ignores itself in git', () => {
+    const repo = tmpRepo();
+    recordRun(repo, run());
+    recordRun(repo, run({ productId: 'api' }));
+    // Dead wizard and no live processes: pruned on read.
+    recordRun(repo, run({ productId: 'old', wizardPid: 999_999_999 }));
+
+    expect(readRunRegistry(repo).map((r) => r.productId)).toEqual(['web', 'api']);
+    expect(fs.readFileSync(path.join(repo, '.start-wizard', '.gitignore'), 'utf8')).toBe(
+      '*\n'
+    );
+
+    forgetRuns(repo, process.pid);
+    expect(readRunRegistry(repo)).toEqual([]);
+  });
+
+  test('prunes dead runs from the file unless asked not to', () => {
+    const repo = tmpRepo();
+    const file = path.join(repo, '.start-wizard', 'runs.json');
+    fs.mkdirSync(path.dirname(file));
+    const dead = JSON.stringify([run({ wizardPid: 999_999_999, pids: [999_999_998] })]);
+    fs.writeFileSync(file, dead);
+
+    expect(readRunRegistry(repo, { prune: false })).toEqual([]);
+    expect(fs.readFileSync(file, 'utf8')).toBe(dead);
+    expect(readRunRegistry(repo)).toEqual([]);
+    expect(fs.readFileSync(file, 'utf8')).not.toBe(dead);
+  });
+
+  test('treats a corrupt registry as empty', () => {
+    const repo = tmpRepo();
+    fs.mkdirSync(path.join(repo, '.start-wizard'));
+    fs.writeFileSync(path.join(repo, '.start-wizard', 'runs.json'), '{nope');
+    expect(readRunRegistry(repo)).toEqual([]);
+  });
+
+  test('attributes listeners in the process tree of a recorded pid', async () => {
+    const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], {
+      stdio: 'ignore',
+    });
+    try {
+      const recorded = run({ wizardPid: 999_999_999, pids: [child.pid!], ports: [] });
+      expect(findOwningRun([recorded], { port: 3000, pids: [child.pid!] })).toBe(recorded);
+      expect(findOwningRun([recorded], { port: 3000, pids: [process.pid] })).toBeUndefined();
+      // A live wizard owns its recorded ports even after children restarted.
+      const live = run({ pids: [] });
+      expect(findOwningRun([live], { port: 3000, pids: [12345] })).toBe(live);
+    } finally {
+      child.kill('SIGKILL');
+    }
+  });
+});
+
+describe('resolvePreviousRunConflicts', () => {
+  const conflict = (port: number, previousRun?: StartWizardRunRecord): PortConflict => ({
+    port,
+    desiredService: 'web',
+    flexible: false,
+    listeners: [{ pid: 4242, command: 'node server.js' }],
+    previousRun,
+  });
+
+  test('reuses same-mode runs without a TTY and leaves the rest', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const sameMode = run();
+    const otherMode = run({ productId: 'api', mode: 'prod', ports: [4000] });
+    const result = await resolvePreviousRunConflicts({
+      conflicts: [conflict(3000, sameMode), conflict(4000, otherMode), conflict(5000)],
+      owners: new Map([
+        [3000, 'web'],
+        [4000, 'api'],
+        [5000, 'docs'],
+      ]),
+      mode: 'dev',
+      yes: false,
+    });
+    expect(result.reused).toEqual([sameMode]);
+    expect(result.conflicts.map((c) => c.port)).toEqual([5000, 4000]);
+  });
+
+  test('ignores runs of a different product on the port', async () => {
+    const result = await resolvePreviousRunConflicts({
+      conflicts: [conflict(3000, run({ productId: 'api' }))],
+      owners: new Map([[3000, 'web']]),
+      mode: 'dev',
+      yes: true,
+    });
+    expect(result.reused).toEqual([]);
+    expect(result.conflicts).toHaveLength(1);
+  });
+
+  test('restarting never signals a recorded pid now used by another process', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const spawnIdle = () =>
+      spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+    const reused = spawnIdle();
+    const owned = spawnIdle();
+    const restoreTty = setLooseProp(process.stdin, 'isTTY', true);
+    vi.mocked(selectPrompt).mockResolvedValueOnce({ id: 'restart', label: 'Restart it' });
+    try {
+      const previous = run({
+        pids: [reused.pid!, owned.pid!],
+        // The first pid was recorded for a process that has since exited.
+        pidStartTimes: {
+          [reused.pid!]: 'an earlier process',
+          [owned.pid!]: processStartTime(owned.pid!)!,
+        },
+      });
+      await resolvePreviousRunConflicts({
+        conflicts: [{ ...conflict(3000, previous), listeners: [] }],
+        owners: new Map([[3000, 'web']]),
+        mode: 'dev',
+        yes: false,
+        killGraceMs: 1000,
+        portReleaseTimeoutMs: 0,
+      });
+      expect(isPidAlive(reused.pid!)).toBe(true);
+      expect(isPidAlive(owned.pid!)).toBe(false);
+    } finally {
+      restoreTty();
+      reused.kill('SIGKILL');
+      owned.kill('SIGKILL');
+    }
+  });
+});
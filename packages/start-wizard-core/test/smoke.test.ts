@@ -2,7 +2,12 @@ import { describe, expect, it } from 'vitest';
 import {
   START_WIZARD_CORE_VERSION,
   defineConfig,
+  describeOptionCondition,
+  isOptionActive,
   parseCommonCliArgs,
+  resolveOptionSpec,
+  resolveStartOrder,
+  type StartWizardOptionSpec,
 } from '../src/index.js';
 
 describe('start-wizard-core', () => {
@@ -24,6 +29,251 @@ describe('start-wizard-core', () => {
     expect(cfg.modes?.map((m) => m.id)).toEqual(['local', 'dev', 'prod']);
   });
 
+  it('accepts custom modes with metadata', () => {
+    const cfg = defineConfig({
+      products: [{ id: 'web', label: 'Web', start: () => undefined }],
+      modes: [
+        { id: 'local', label: 'Local' },
+        { id: 'staging', label: 'Staging', default: true },
+        { id: 'prod', label: 'Prod' },
+        { id: 'e2e', label: 'E2E', guarded: true, usesLocalStack: true },
+      ],
+    });
+    const byId = new Map(cfg.modes?.map((m) => [m.id, m]));
+    expect(byId.get('local')).toMatchObject({ usesLocalStack: true, guarded: false });
+    expect(byId.get('staging')).toMatchObject({ default: true, guarded: false });
+    expect(byId.get('prod')).toMatchObject({ guarded: true, usesLocalStack: false });
+    expect(byId.get('e2e')).toMatchObject({ guarded: true, usesLocalStack: true });
+  });
+
+  it('rejects invalid mode ids and multiple defaults', () => {
+    const products = [{ id: 'web', label: 'Web', start: () => undefined }];
+    expect(() =>
+      defineConfig({ products, modes: [{ id: 'Staging!', label: 'S' }] })
+    ).toThrow(/modes\[0\]\.id must match/);
+    expect(() =>
+      defineConfig({
+        products,
+        modes: [
+          { id: 'a', label: 'A', default: true },
+          { id: 'b', label: 'B', default: true },
+        ],
+      })
+    ).toThrow(/Only one mode may set default/);
+  });
+
+  it('validates profiles and dependsOn', () => {
+    const start = () => undefined;
+    const cfg = defineConfig({
+      products: [
+        { id: 'api', label: 'API', start },
+        { id: 'web', label: 'Web', dependsOn: ['api'], start },
+        { id: 'mobile', label: 'Mobile', dependsOn: ['api'], start },
+      ],
+      profiles: [{ id: 'fullstack', label: 'Full stack', products: ['mobile', 'web'] }],
+    });
+    expect(
+      resolveStartOrder(cfg.products, cfg.profiles![0]!.products).map((p) => p.id)
+    ).toEqual(['api', 'mobile', 'web']);
+
+    expect(() =>
+      defineConfig({
+        products: [
+          { id: 'a', label: 'A', dependsOn: ['b'], start },
+          { id: 'b', label: 'B', dependsOn: ['c'], start },
+          { id: 'c', label: 'C', dependsOn: ['a'], start },
+        ],
+      })
+    ).toThrow('Dependency cycle detected: a -> b -> c -> a');
+    expect(() =>
+      defineConfig({
+        products: [{ id: 'a', label: 'A', start }],
+        profiles: [{ id: 'all', label: 'All', products: ['a', 'zzz'] }],
+      })
+    ).toThrow(/unknown product "zzz"/);
+  });
+
+  it('validates env placeholders against products and options', () => {
+    const start = () => undefined;
+    const config = (env: unknown, modeEnv?: unknown) => () =>
+      defineConfig({
+        modes: [{ id: 'dev', label: 'Dev', env: modeEnv as never }],
+        products: [
+          { id: 'api', label: 'API', options: [{ name: 'port', kind: 'number' }], start },
+          { id: 'web', label: 'Web', env: env as never, start },
+        ],
+      });
+    expect(config({ vars: { API_URL: 'http://localhost:${ports.api}' } })).not.toThrow();
+    expect(config({ vars: { API_URL: 'http://localhost:${ports.apii}' } })).toThrow(
+      'products[1].env: ${ports.apii} refers to unknown product "apii".'
+    );
+    expect(config({ files: ['.env.${mod}'] })).toThrow(
+      'products[1].env: Unknown placeholder ${mod}.'
+    );
+    expect(config({ vars: { PORT: '${options.port}' } })).toThrow(
+      'products[1].env: ${options.port}: product "web" has no option "port".'
+    );
+    expect(config(undefined, { vars: { PORT: '${options.port}' } })).toThrow(
+      'modes[0].env: ${options.port}: product "web" has no option "port".'
+    );
+  });
+
+  it('validates option when conditions', async () => {
+    const start = () => undefined;
+    const network = {
+      name: 'network',
+      kind: 'select' as const,
+      options: [
+        { id: 'direct', label: 'Direct' },
+        { id: 'tunnel', label: 'Tunnel' },
+      ],
+    };
+    const product = (options: StartWizardOptionSpec[]) => ({
+      products: [{ id: 'web', label: 'Web', options, start }],
+    });
+    expect(() =>
+      defineConfig(
+        product([
+          { name: 'subdomain', kind: 'string', when: { option: { network: 'tunnel' } } },
+          network,
+        ])
+      )
+    ).toThrow('Product "web": options[0].when.option.network must name an earlier option.');
+    expect(() =>
+      defineConfig(product([{ name: 'dataDir', kind: 'string', when: { mode: ['qa'] } }]))
+    ).toThrow('Product "web": option "dataDir" has when.mode "qa", which is not a mode.');
+    expect(() =>
+      defineConfig(product([network, { name: 'port', kind: 'number', defaultValue: () => 3000 }]))
+    ).not.toThrow();
+
+    const subdomain: StartWizardOptionSpec = {
+      name: 'subdomain',
+      kind: 'string',
+      when: { mode: ['local', 'dev'], option: { network: ['tunnel'] } },
+      defaultValue: ({ mode }) => `web-${mode}`,
+    };
+    const ctx = (mode: string, options: Record<string, unknown> = {}) => ({
+      repoRoot: '/repo',
+      mode,
+      options,
+    });
+    expect(isOptionActive(subdomain, ctx('dev', { network: 'tunnel' }))).toBe(true);
+    expect(isOptionActive(subdomain, ctx('dev', { network: 'direct' }))).toBe(false);
+    expect(isOptionActive(subdomain, ctx('prod', { network: 'tunnel' }))).toBe(false);
+    expect(describeOptionCondition(subdomain.when!)).toBe(
+      'mode local|dev and network is one of tunnel'
+    );
+    expect(await resolveOptionSpec(subdomain, ctx('dev'))).toMatchObject({
+      defaultValue: 'web-dev',
+    });
+  });
+
+  it('validates multiselect, path, secret and port options', () => {
+    const start = () => undefined;
+    const product = (options: StartWizardOptionSpec[]) => ({
+      products: [{ id: 'mobile', label: 'Mobile', options, start }],
+    });
+    const platforms = [
+      { id: 'ios', label: 'iOS' },
+      { id: 'android', label: 'Android' },
+    ];
+    expect(() =>
+      defineConfig(
+        product([
+          { name: 'platforms', kind: 'multiselect', options: platforms, defaultIds: ['ios'] },
+          { name: 'dir', kind: 'path', type: 'directory', defaultValue: 'apps/mobile' },
+          { name: 'token', kind: 'secret', env: 'MOBILE_TOKEN' },
+          { name: 'port', kind: 'port', defaultValue: 8081, flexible: 'auto' },
+        ])
+      )
+    ).not.toThrow();
+    expect(() =>
+      defineConfig(
+        product([{ name: 'platforms', kind: 'multiselect', options: platforms, defaultIds: ['tvos'] }])
+      )
+    ).toThrow('options[0].defaultIds must be a list of: ios, android.');
+    expect(() =>
+      defineConfig(product([{ name: 'port', kind: 'port', defaultValue: 70_000 }]))
+    ).toThrow('options[0].defaultValue must be a port (1-65535).');
+    expect(() =>
+      defineConfig(
+        product([{ name: 'token', kind: 'secret', defaultValue: 'x' } as unknown as StartWizardOptionSpec])
+      )
+    ).toThrow('options[0]: secret options cannot have a defaultValue (use env).');
+  });
+
+  it('validates patterns, checks, choicesFrom and value fields', async () => {
+    const start = () => undefined;
+    const product = (options: unknown[]) => () =>
+      defineConfig({
+        products: [
+          { id: 'web', label: 'Web', options: options as StartWizardOptionSpec[], start },
+        ],
+      });
+    const profiles = {
+      name: 'profile',
+      kind: 'select',
+      choicesFrom: () => [{ id: 'seed', label: 'Seed data' }],
+    } satisfies StartWizardOptionSpec;
+    expect(
+      product([
+        { name: 'slug', kind: 'string', pattern: '^[a-z]+$', defaultValue: 'web' },
+        { name: 'port', kind: 'number', min: 1, max: 10, validate: () => null },
+        profiles,
+      ])
+    ).not.toThrow();
+    expect(product([{ name: 'slug', kind: 'string', pattern: '^[a-z]+$', defaultValue: 'Web' }])).toThrow(
+      'options[0].defaultValue must match /^[a-z]+$/.'
+    );
+    expect(product([{ name: 'slug', kind: 'string', pattern: '(' }])).toThrow(
+      'options[0].pattern is not a valid regular expression: ('
+    );
+    expect(product([{ name: 'n', kind: 'number', pattern: '\\d' }])).toThrow(
+      'options[0].pattern only applies to string, path and secret options.'
+    );
+    expect(product([{ name: 'n', kind: 'number', min: 5, max: 1 }])).toThrow(
+      'options[0].min must be <= max.'
+    );
+    expect(product([{ name: 'n', kind: 'number', defaultValue: '3' }])).toThrow(
+      'options[0].defaultValue must be a number.'
+    );
+    expect(product([{ name: 's', kind: 'string', required: 'yes' }])).toThrow(
+      'options[0].required must be a boolean.'
+    );
+    expect(product([{ name: 's', kind: 'string', prompt: { question: 'S?', defaultValue: 3 } }])).toThrow(
+      'options[0].prompt.defaultValue must be a string.'
+    );
+    expect(product([{ name: 's', kind: 'string', validate: 'nope' }])).toThrow(
+      'options[0].validate must be a function.'
+    );
+    expect(product([{ name: 's', kind: 'string', choicesFrom: () => [] }])).toThrow(
+      'options[0].choicesFrom only applies to select and multiselect options.'
+    );
+
+    const ctx = { repoRoot: '/repo', mode: 'dev', options: {} };
+    expect(await resolveOptionSpec(profiles, ctx)).toMatchObject({
+      options: [{ id: 'seed', label: 'Seed data' }],
+    });
+    await expect(
+      resolveOptionSpec({ ...profiles, choicesFrom: () => [{ id: 'seed' }] as never }, ctx)
+    ).rejects.toThrow('Option "profile": choicesFrom must return a list of { id, label }.');
+  });
+
+  it('rejects option flags that collide with start-wizard flags', () => {
+    expect(() =>
+      defineConfig({
+        products: [
+          {
+            id: 'web',
+            label: 'Web',
+            options: [{ name: 'dryRun', flag: 'dry-run', kind: 'boolean' }],
+            start: () => undefined,
+          },
+        ],
+      })
+    ).toThrow('options[0].flag "--dry-run" is a start-wizard flag; pick another name.');
+  });
+
   it('parses common args', () => {
     const parsed = parseCommonCliArgs([
       '--product',
@@ -40,6 +290,60 @@ describe('start-wizard-core', () => {
     expect(parsed.yes).toBe(true);
     expect(parsed.passThroughArgs).toEqual(['--foo', 'bar']);
   });
-});
 
+  it('parses subcommands', () => {
+    const stop = parseCommonCliArgs(['--config', 'x.mjs', 'stop', 'web', 'api', '--json']);
+    expect(stop.command).toBe('stop');
+    expect(stop.commandArgs).toEqual(['web', 'api']);
+    expect(stop.json).toBe(true);
+    expect(parseCommonCliArgs(['stop', '--all'])).toMatchObject({
+      command: 'stop',
+      all: true,
+    });
+    // Only the first bare word can be a subcommand.
+    const notACommand = parseCommonCliArgs(['--port', '3000', 'status']);
+    expect(notACommand.command).toBeUndefined();
+    expect(notACommand.remaining).toEqual(['--port', '3000', 'status']);
+    // Nor a value of a product flag.
+    const optionValue = parseCommonCliArgs(['--target', 'status']);
+    expect(optionValue.command).toBeUndefined();
+    expect(optionValue.remaining).toEqual(['--target', 'status']);
+    // After a subcommand, a product flag keeps its value.
+    const status = parseCommonCliArgs(['stop', 'web', '--port', '3001', 'api']);
+    expect(status.commandArgs).toEqual(['web', 'api']);
+    expect(status.remaining).toEqual(['--port', '3001']);
+    expect(parseCommonCliArgs(['--yes', '--mode', 'dev', 'status'])).toMatchObject({
+      command: 'status',
+      yes: true,
+      mode: 'dev',
+    });
+  });
 
+  it('reads common args from START_WIZARD_* variables; flags win', () => {
+    const env = {
+      START_WIZARD_PRODUCT: 'web',
+      START_WIZARD_MODE: 'dev',
+      START_WIZARD_YES: 'true',
+      START_WIZARD_INSTALL: '0',
+    };
+    expect(parseCommonCliArgs([], env)).toMatchObject({
+      product: 'web',
+      mode: 'dev',
+      yes: true,
+      install: false,
+      fromEnv: {
+        product: 'START_WIZARD_PRODUCT',
+        mode: 'START_WIZARD_MODE',
+        yes: 'START_WIZARD_YES',
+        install: 'START_WIZARD_INSTALL',
+      },
+    });
+    const flags = parseCommonCliArgs(['--profile', 'all', '--mode', 'prod', '--install'], env);
+    expect(flags).toMatchObject({ mode: 'prod', profile: 'all', install: true, yes: true });
+    expect(flags.product).toBeUndefined();
+    expect(flags.fromEnv).toEqual({ yes: 'START_WIZARD_YES' });
+    expect(() => parseCommonCliArgs([], { START_WIZARD_KILL: 'maybe' })).toThrow(
+      'Invalid boolean in START_WIZARD_KILL: "maybe"'
+    );
+  });
+});
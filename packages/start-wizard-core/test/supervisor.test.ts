@@ -0,0 +1,234 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { describe, expect, test, vi } from 'vitest';
+
+import {
+  createSupervisor,
+  type SupervisorClock,
+  type SupervisorProcessApi,
+} from '../src/supervisor.js';
+import { isPidAlive } from '../src/processTree.js';
+
+function spawnNode(script: string) {
+  return spawn(process.execPath, ['-e', script], { stdio: 'ignore' });
+}
+
+class FakeChild extends EventEmitter {
+  stdout = new PassThrough();
+  constructor(public pid: number) {
+    super();
+  }
+  crash(code: number, output: string[] = []) {
+    for (const line of output) this.stdout.write(`${line}\n`);
+    setImmediate(() => this.emit('exit', code, null));
+  }
+}
+
+function fakeEnvironment() {
+  let now = 0;
+  const sleeps: number[] = [];
+  const clock: SupervisorClock = {
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+      await new Promise((resolve) => setImmediate(resolve));
+    },
+  };
+  const alive = new Set<number>();
+  const processes: SupervisorProcessApi = {
+    isAlive: (pid) => alive.has(pid),
+    listDescendants: () => [],
+    kill: (pid) => {
+      alive.delete(pid);
+    },
+  };
+  let nextPid = 100;
+  const spawnFake = () => {
+    const child = new FakeChild((nextPid += 1));
+    alive.add(child.pid);
+    return child;
+  };
+  return {
+    clock,
+    processes,
+    sleeps,
+    spawnFake,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('supervisor restarts', () => {
+  test('re-runs start after a failure with backoff and a crash summary', async () => {
+    const env = fakeEnvironment();
+    const lines: string[] = [];
+    const supervisor = createSupervisor({
+      clock: env.clock,
+      processes: env.processes,
+      handleSignals: false,
+      log: (line) => lines.push(line),
+    });
+
+    const started: FakeChild[] = [];
+    const unit = supervisor.unit({
+      name: 'web',
+      restart: { policy: 'on-failure', maxRestarts: 3, backoffMs: 100 },
+      start: () => {
+        started.push(unit.register(env.spawnFake()));
+      },
+    });
+    started.push(unit.register(env.spawnFake()));
+
+    started[0]!.crash(137, ['compiling…', 'FATAL ERROR: heap out of memory']);
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    started[1]!.crash(1);
+    await vi.waitFor(() => expect(started).toHaveLength(3));
+
+    expect(env.sleeps.filter((ms) => ms >= 100)).toEqual([100, 200]);
+    const output = lines.join('\n');
+    expect(output).toContain('✖ web exited (code 137)');
+    expect(output).toContain('FATAL ERROR: heap out of memory');
+    expect(output).toContain('Restarting web in 100ms (restart 1/3)');
+
+    started[2]!.crash(0);
+    await expect(supervisor.wait()).resolves.toBe(0);
+  });
+
+  test('gives up on a crash loop with a clear error', async () => {
+    const env = fakeEnvironment();
+    const supervisor = createSupervisor({
+      clock: env.clock,
+      processes: env.processes,
+      handleSignals: false,
+      log: () => undefined,
+    });
+
+    let starts = 0;
+    const unit = supervisor.unit({
+      name: 'metro',
+      restart: { policy: 'on-failure', maxRestarts: 2, backoffMs: 10 },
+      start: () => {
+        starts += 1;
+        unit.register(env.spawnFake()).crash(1);
+      },
+    });
+    unit.register(env.spawnFake()).crash(1);
+
+    await expect(supervisor.wait()).rejects.toThrow(
+      /metro is crash-looping \(2 restarts/
+    );
+    expect(starts).toBe(2);
+  });
+
+  test('onExit fires when a unit stops for good, not on restarts', async () => {
+    const env = fakeEnvironment();
+    const supervisor = createSupervisor({
+      clock: env.clock,
+      processes: env.processes,
+      handleSignals: false,
+      log: () => undefined,
+    });
+    const exits: string[] = [];
+    const unit = supervisor.unit({
+      name: 'metro',
+      restart: { policy: 'on-failure', maxRestarts: 1, backoffMs: 10 },
+      start: () => {
+        unit.register(env.spawnFake()).crash(1);
+      },
+    });
+    unit.onExit((reason) => exits.push(reason));
+    unit.register(env.spawnFake()).crash(1);
+
+    await expect(supervisor.wait()).rejects.toThrow(/crash-looping/);
+    expect(exits).toEqual([expect.stringMatching(/^metro is crash-looping/)]);
+  });
+
+  test('a stable run resets the restart counter', async () => {
+    const env = fakeEnvironment();
+    const supervisor = createSupervisor({
+      clock: env.clock,
+      processes: env.processes,
+      handleSignals: false,
+      log: () => undefined,
+    });
+
+    const started: FakeChild[] = [];
+    const unit = supervisor.unit({
+      name: 'api',
+      restart: {
+        policy: 'on-failure',
+        maxRestarts: 1,
+        backoffMs: 10,
+        stableAfterMs: 1_000,
+      },
+      start: () => {
+        started.push(unit.register(env.spawnFake()));
+      },
+    });
+    started.push(unit.register(env.spawnFake()));
+
+    for (let i = 0; i < 3; i += 1) {
+      env.advance(5_000);
+      started[i]!.crash(1);
+      await vi.waitFor(() => expect(started).toHaveLength(i + 2));
+    }
+
+    await supervisor.shutdown();
+    await expect(supervisor.wait()).resolves.toBe(0);
+  });
+});
+
+describe('supervisor', () => {
+  test('tears down siblings and exits with the first exit code', async () => {
+    const onShutdown = vi.fn();
+    const supervisor = createSupervisor({
+      graceMs: 2_000,
+      onShutdown,
+      log: () => undefined,
+    });
+
+    const longRunning = supervisor.register(
+      spawnNode('setInterval(() => {}, 1000)'),
+      { name: 'server' }
+    );
+    supervisor.register(spawnNode('setTimeout(() => process.exit(3), 50)'), {
+      name: 'crasher',
+    });
+
+    await expect(supervisor.wait()).resolves.toBe(3);
+    expect(onShutdown).toHaveBeenCalledTimes(1);
+    expect(isPidAlive(longRunning.pid!)).toBe(false);
+    expect(supervisor.list()).toEqual([]);
+  });
+
+  test('kills grandchildren when shutting down', async () => {
+    const supervisor = createSupervisor({ graceMs: 2_000, log: () => undefined });
+    const parent = supervisor.register(
+      spawn(
+        process.execPath,
+        [
+          '-e',
+          `const c = require('node:child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+           console.log(c.pid);
+           setInterval(() => {}, 1000);`,
+        ],
+        { stdio: ['ignore', 'pipe', 'ignore'] }
+      )
+    );
+    const grandchildPid = await new Promise<number>((resolve) => {
+      parent.stdout!.once('data', (chunk) =>
+        resolve(Number.parseInt(String(chunk), 10))
+      );
+    });
+
+    await expect(supervisor.shutdown({ exitCode: 130 })).resolves.toBe(130);
+    expect(isPidAlive(grandchildPid)).toBe(false);
+  });
+
+  test('wait resolves immediately when nothing was registered', async () => {
+    await expect(createSupervisor().wait()).resolves.toBe(0);
+  });
+});
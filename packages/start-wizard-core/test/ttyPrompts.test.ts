@@ -1,6 +1,18 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+
 import { describe, expect, test, vi } from 'vitest';
 
-import { selectPrompt } from '../src/ttyPrompts.js';
+import {
+  completePath,
+  fuzzyMatchScore,
+  inputPrompt,
+  searchSelectPrompt,
+  secretPrompt,
+  selectPrompt,
+} from '../src/ttyPrompts.js';
 
 function setLooseProp(obj: object, key: string, value: unknown): () => void {
   const desc = Object.getOwnPropertyDescriptor(obj, key);
@@ -74,3 +86,189 @@ describe('ttyPrompts.selectPrompt', () => {
 });
 
 
+
+describe('ttyPrompts.secretPrompt', () => {
+  test('masks input and re-asks when validation fails', async () => {
+    const written: string[] = [];
+    const restores = [
+      setLooseProp(process.stdin, 'isTTY', true),
+      setLooseProp(process.stdout, 'isTTY', true),
+      setLooseProp(process.stdout, 'write', (chunk: string) => {
+        written.push(chunk);
+        return true;
+      }),
+      setLooseProp(process.stdin, 'resume', vi.fn()),
+      setLooseProp(process.stdin, 'pause', vi.fn()),
+      setLooseProp(process.stdin, 'setRawMode', vi.fn()),
+      setLooseProp(process.stdin, 'isPaused', () => false),
+      setLooseProp(process.stdin, 'isRaw', false),
+    ];
+    const emitter = process.stdin as unknown as {
+      emit: (event: string, ...args: unknown[]) => boolean;
+    };
+    const type = (text: string) => {
+      for (const ch of text) emitter.emit('keypress', ch, { name: ch, sequence: ch });
+    };
+
+    try {
+      const p = secretPrompt({
+        question: 'Token?',
+        validate: (value) => (value.length < 3 ? 'Too short.' : null),
+      });
+      process.nextTick(() => {
+        type('ab');
+        emitter.emit('keypress', '', { name: 'return' });
+        type('abcd');
+        emitter.emit('keypress', '', { name: 'backspace' });
+        emitter.emit('keypress', '', { name: 'return' });
+      });
+
+      expect(await p).toBe('abc');
+      const output = written.join('');
+      expect(output).toContain('Too short.');
+      expect(output).toContain('Token? ****');
+      expect(output).not.toContain('abc');
+    } finally {
+      for (const restore of restores.reverse()) restore();
+    }
+  });
+});
+
+describe('ttyPrompts.searchSelectPrompt', () => {
+  const options = [
+    { id: 'web', label: 'Web app', description: 'Next.js on :3000' },
+    { id: 'mobile', label: 'Mobile app', disabled: 'requires local mode' },
+    { id: 'api', label: 'API server' },
+    ...Array.from({ length: 12 }, (_v, i) => ({ id: `svc${i}`, label: `Service ${i}` })),
+  ];
+
+  async function pick(keys: (type: (text: string) => void, press: (name: string) => void) => void) {
+    const written: string[] = [];
+    const restores = [
+      setLooseProp(process.stdin, 'isTTY', true),
+      setLooseProp(process.stdout, 'isTTY', true),
+      setLooseProp(process.stdout, 'write', (chunk: string) => {
+        written.push(chunk);
+        return true;
+      }),
+      setLooseProp(process.stdin, 'resume', vi.fn()),
+      setLooseProp(process.stdin, 'pause', vi.fn()),
+      setLooseProp(process.stdin, 'setRawMode', vi.fn()),
+      setLooseProp(process.stdin, 'isPaused', () => false),
+      setLooseProp(process.stdin, 'isRaw', false),
+    ];
+    const emitter = process.stdin as unknown as {
+      emit: (event: string, ...args: unknown[]) => boolean;
+    };
+    try {
+      const p = searchSelectPrompt({ title: 'Which product?', options, pageSize: 5 });
+      process.nextTick(() =>
+        keys(
+          (text) => {
+            for (const ch of text) emitter.emit('keypress', ch, { name: ch, sequence: ch });
+          },
+          (name) => emitter.emit('keypress', '', { name })
+        )
+      );
+      return { choice: (await p)?.id, output: written.join('') };
+    } finally {
+      for (const restore of restores.reverse()) restore();
+    }
+  }
+
+  test('filters as you type and skips disabled entries', async () => {
+    const { choice, output } = await pick((type, press) => {
+      type('app');
+      press('down');
+      press('return');
+      press('backspace');
+      press('backspace');
+      press('backspace');
+      type('apisv');
+      press('return');
+    });
+    expect(choice).toBe('api');
+    expect(output).toContain('Next.js on :3000');
+    expect(output).toContain('Mobile app (requires local mode)');
+    expect(output).toContain('Mobile app cannot be picked: requires local mode.');
+    expect(output).toContain('↓ 10 more');
+  });
+
+  test('pages, jumps and picks numbered entries', async () => {
+    const pressing = (...names: string[]) => (_type: unknown, press: (name: string) => void) => {
+      for (const name of names) press(name);
+    };
+    expect((await pick(pressing('end', 'return'))).choice).toBe('svc11');
+    expect((await pick(pressing('pagedown', 'pageup', 'down', 'down', 'return'))).choice).toBe('api');
+    expect((await pick((type) => type('3'))).choice).toBe('api');
+  });
+
+  test('ranks substring matches before scattered ones', () => {
+    expect(fuzzyMatchScore('api', 'API server')).toBe(0);
+    expect(fuzzyMatchScore('srv', 'API server')).toBeGreaterThan(fuzzyMatchScore('ser', 'API server')!);
+    expect(fuzzyMatchScore('xyz', 'API server')).toBeNull();
+  });
+});
+
+describe('ttyPrompts.inputPrompt', () => {
+  /** Run `inputPrompt` against a fake TTY fed `lines`; returns it with the output. */
+  async function answer(lines: string[], options: Omit<Parameters<typeof inputPrompt>[0], 'question'>) {
+    const input = Object.assign(new PassThrough(), { isTTY: true, setRawMode: vi.fn() });
+    const written: string[] = [];
+    const exitCode = process.exitCode;
+    const restores = [
+      setLooseProp(process, 'stdin', input),
+      setLooseProp(process.stdout, 'isTTY', true),
+      setLooseProp(process.stdout, 'write', (chunk: string) => {
+        written.push(String(chunk));
+        return true;
+      }),
+    ];
+    try {
+      const p = inputPrompt({ question: 'Port?', ...options });
+      // One line per question, so each answer is read by the next attempt.
+      for (const line of lines) {
+        await new Promise((resolve) => setImmediate(resolve));
+        input.write(line);
+      }
+      return { result: await p.then((value) => ({ value }), (err: Error) => ({ err })), written };
+    } finally {
+      for (const restore of restores.reverse()) restore();
+      process.exitCode = exitCode;
+    }
+  }
+  const validate = (value: string) => (/^\d+$/.test(value) ? null : 'Must be a number.');
+
+  test('shows the validation message and asks again', async () => {
+    const { result, written } = await answer(['30x1\r', '3001\r'], { validate });
+    expect(result).toEqual({ value: '3001' });
+    expect(written.join('')).toContain('Must be a number. Try again, or press Ctrl+C to cancel.');
+  });
+
+  test('gives up after maxAttempts invalid answers', async () => {
+    const { result } = await answer(['a\r', 'b\r'], { validate, maxAttempts: 2 });
+    expect(result).toEqual({
+      err: new Error('Must be a number. (no valid answer after 2 attempts)'),
+    });
+  });
+
+  test('rejects with Aborted on Ctrl+C', async () => {
+    const { result } = await answer(['x\r', '\x03'], { validate });
+    expect(result).toEqual({ err: new Error('Aborted.') });
+  });
+});
+
+describe('ttyPrompts.completePath', () => {
+  test('completes entries relative to the base directory', () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'start-wizard-path-'));
+    fs.mkdirSync(path.join(baseDir, 'apps/web'), { recursive: true });
+    fs.writeFileSync(path.join(baseDir, 'apps/app.json'), '{}');
+    fs.writeFileSync(path.join(baseDir, '.env'), '');
+
+    const complete = completePath(baseDir) as (line: string) => [string[], string];
+    expect(complete('ap')).toEqual([['apps/'], 'ap']);
+    expect(complete('apps/')).toEqual([['apps/app.json', 'apps/web/'], 'apps/']);
+    expect(complete('')).toEqual([['apps/'], '']);
+    expect(complete('.e')).toEqual([['.env'], '.e']);
+  });
+});
@@ -10,20 +10,26 @@ function ensureNodeModulesBinOnPath(projectDir: string, env: NodeJS.ProcessEnv):
   }
 }
 
+/**
+ * The child's environment is `env`, else `ctx.env` (the wizard's per-product
+ * environment), else `process.env`.
+ */
 export function spawnExpoStart({
+  ctx,
   projectDir,
   env: rawEnv,
   devClient,
   go,
   extraArgs = [],
 }: {
+  ctx?: { env: NodeJS.ProcessEnv };
   projectDir: string;
   env?: NodeJS.ProcessEnv;
   devClient?: boolean;
   go?: boolean;
   extraArgs?: string[];
 }) {
-  const env: NodeJS.ProcessEnv = { ...(rawEnv ?? process.env) };
+  const env: NodeJS.ProcessEnv = { ...(rawEnv ?? ctx?.env ?? process.env) };
   ensureNodeModulesBinOnPath(projectDir, env);
 
   const flags: string[] = [];
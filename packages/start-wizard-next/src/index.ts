@@ -10,18 +10,24 @@ function ensureNodeModulesBinOnPath(projectDir: string, env: NodeJS.ProcessEnv):
   }
 }
 
+/**
+ * The child's environment is `env`, else `ctx.env` (the wizard's per-product
+ * environment), else `process.env`.
+ */
 export function spawnNextDev({
+  ctx,
   projectDir,
   port,
   env: rawEnv,
   extraArgs = [],
 }: {
+  ctx?: { env: NodeJS.ProcessEnv };
   projectDir: string;
   port?: number;
   env?: NodeJS.ProcessEnv;
   extraArgs?: string[];
 }) {
-  const env: NodeJS.ProcessEnv = { ...(rawEnv ?? process.env) };
+  const env: NodeJS.ProcessEnv = { ...(rawEnv ?? ctx?.env ?? process.env) };
   ensureNodeModulesBinOnPath(projectDir, env);
 
   const args = ['next', 'dev', ...(port ? ['-p', String(port)] : []), ...extraArgs];